@@ -0,0 +1,107 @@
+import {cold, getTestScheduler, time} from 'jasmine-marbles';
+import {defer, of} from 'rxjs';
+import {ObservableCache, ObservableCacheStats} from './observable_cache';
+
+
+describe('ObservableCache', () => {
+  let stats: ObservableCacheStats|undefined;
+
+  function watchStats<K, V>(cache: ObservableCache<K, V>) {
+    cache.stats$.subscribe(s => stats = s);
+  }
+
+  beforeEach(() => {
+    stats = undefined;
+  });
+
+  it('should share and replay the observable of a key', () => {
+    const cache = new ObservableCache<string, string>({scheduler: getTestScheduler()});
+    watchStats(cache);
+    const rpc = cold('--x|     ');
+    const rpcSubs = '^--!     '; // only subscribe once
+    let calls = 0;
+    const lookup = defer(() => cache.get('a', () => {
+      calls++;
+      return rpc;
+    }));
+
+    getTestScheduler().expectObservable(lookup, '^        ').toBe('--x|     ');
+    getTestScheduler().expectObservable(lookup, '-^       ').toBe('--x|     ');
+    getTestScheduler().expectObservable(lookup, '-----^   ').toBe('-----(x|)');
+    getTestScheduler().expectSubscriptions(rpc.getSubscriptions()).toBe(rpcSubs);
+    getTestScheduler().flush();
+    expect(calls).toBe(1);
+    expect(stats).toEqual({hits: 2, misses: 1, evictions: 0, size: 1});
+  });
+
+  it('should evict the least recently used entry beyond maxSize', () => {
+    const cache = new ObservableCache<string, string>({maxSize: 2});
+    watchStats(cache);
+    const calls: string[] = [];
+    const lookup = (key: string) => cache.get(key, () => {
+      calls.push(key);
+      return of(key);
+    }).subscribe();
+
+    lookup('a');
+    lookup('b');
+    lookup('a'); // a is now more recently used than b
+    lookup('c'); // evicts b
+    lookup('a');
+    lookup('b'); // evicts c
+    expect(calls).toEqual(['a', 'b', 'c', 'b']);
+    expect(stats).toEqual({hits: 2, misses: 4, evictions: 2, size: 2});
+  });
+
+  it('should subscribe the factory again for lookups after the TTL', () => {
+    const cache = new ObservableCache<string, string>({ttl: time('---|'), scheduler: getTestScheduler()});
+    watchStats(cache);
+    const rpc = cold('-x|       ');
+    const rpcSubs = ['^-!       ',
+      /*          */ '----^-!   ']; // cache expired at frame 4
+    const lookup = defer(() => cache.get('a', () => rpc));
+
+    getTestScheduler().expectObservable(lookup, '^         ').toBe('-x|       ');
+    getTestScheduler().expectObservable(lookup, '---^      ').toBe('---(x|)   '); // x is still fresh
+    getTestScheduler().expectObservable(lookup, '----^     ').toBe('-----x|   '); // x is stale
+    getTestScheduler().expectSubscriptions(rpc.getSubscriptions()).toBe(rpcSubs);
+    getTestScheduler().flush();
+    expect(stats).toEqual({hits: 1, misses: 2, evictions: 1, size: 1});
+  });
+
+  it('should evict an entry that errors instead of replaying the error', () => {
+    const cache = new ObservableCache<string, string>({scheduler: getTestScheduler()});
+    watchStats(cache);
+    const failed = cold('-#    ');
+    const rpc = cold('-x|    ');
+    const responses = [failed, rpc];
+    const lookup = defer(() => cache.get('a', () => responses.shift()!));
+
+    getTestScheduler().expectObservable(lookup, '^     ').toBe('-#    ');
+    getTestScheduler().expectObservable(lookup, '---^  ').toBe('----x|');
+    getTestScheduler().flush();
+    expect(stats).toEqual({hits: 0, misses: 2, evictions: 1, size: 1});
+  });
+
+  it('should remove entries with invalidate() and clear()', () => {
+    const cache = new ObservableCache<string, string>();
+    watchStats(cache);
+    let calls = 0;
+    const lookup = (key: string) => cache.get(key, () => {
+      calls++;
+      return of(key);
+    }).subscribe();
+
+    lookup('a');
+    expect(cache.invalidate('a')).toBe(true);
+    expect(cache.invalidate('a')).toBe(false);
+    lookup('a');
+    lookup('b');
+    expect(cache.size).toBe(2);
+    cache.clear();
+    expect(cache.size).toBe(0);
+    lookup('a');
+    expect(calls).toBe(4);
+    expect(stats).toEqual({hits: 0, misses: 4, evictions: 0, size: 1});
+  });
+});
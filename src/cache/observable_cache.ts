@@ -0,0 +1,154 @@
+import {
+  asyncScheduler,
+  BehaviorSubject,
+  defer,
+  EMPTY,
+  Observable,
+  ObservableInput,
+  SchedulerLike,
+} from 'rxjs';
+import {shareReplay, tap} from 'rxjs/operators';
+
+
+/** Counters reported by ObservableCache.stats$. */
+export interface ObservableCacheStats {
+  /** Lookups that found a live entry. */
+  hits: number;
+  /** Lookups that created a new entry. */
+  misses: number;
+  /** Entries removed because of maxSize, ttl or an error. */
+  evictions: number;
+  /** Entries currently cached. */
+  size: number;
+}
+
+/** Options for ObservableCache. */
+export interface ObservableCacheOptions {
+  /**
+   * Maximum number of entries. Adding one more evicts the least recently used
+   * entry. Default: Infinity.
+   */
+  maxSize?: number;
+  /**
+   * Time an entry stays fresh after its last value is emitted. An entry is
+   * never expired before its first value. Default: Infinity.
+   */
+  ttl?: number;
+  /** Scheduler for the current time. Default: asyncScheduler. */
+  scheduler?: SchedulerLike;
+}
+
+interface CacheEntry<V> {
+  shared: Observable<V>;
+  expiresAt: number;
+}
+
+/**
+ * Memoizes observables by key, e.g. RPC lookups by id. The factory is called
+ * lazily on the first subscription (as with defer(() => from(promise))) and
+ * its values are replayed with shareReplay(1) to later subscribers.
+ *
+ * Evicting an entry does not affect the current subscribers of its
+ * observable; only the following get() calls create a new entry.
+ */
+export class ObservableCache<K, V> {
+  private readonly entries = new Map<K, CacheEntry<V>>();
+  private readonly stats = new BehaviorSubject<ObservableCacheStats>(
+      {hits: 0, misses: 0, evictions: 0, size: 0});
+  private readonly maxSize: number;
+  private readonly ttl: number;
+  private readonly scheduler: SchedulerLike;
+
+  /** Emits the current stats on subscription, then every change. */
+  readonly stats$: Observable<ObservableCacheStats> = this.stats.asObservable();
+
+  constructor({
+    maxSize = Infinity,
+    ttl = Infinity,
+    scheduler = asyncScheduler,
+  }: ObservableCacheOptions = {}) {
+    this.maxSize = maxSize;
+    this.ttl = ttl;
+    this.scheduler = scheduler;
+  }
+
+  /** Number of entries currently cached. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Returns the shared observable cached for the key, or creates one with the
+   * factory. An entry whose observable errors is evicted, so that the error is
+   * not replayed forever.
+   */
+  get(key: K, factory: () => ObservableInput<V>): Observable<V> {
+    const cached = this.entries.get(key);
+    if (cached && this.scheduler.now() < cached.expiresAt) {
+      // Move to the end of the map, which is kept in LRU order.
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      this.updateStats({hits: 1});
+      return cached.shared;
+    }
+    let evictions = 0;
+    if (cached) {
+      this.entries.delete(key);
+      evictions++;
+    }
+
+    const entry: CacheEntry<V> = {shared: EMPTY, expiresAt: Infinity};
+    entry.shared = defer(factory).pipe(
+        tap(
+            () => entry.expiresAt = this.scheduler.now() + this.ttl,
+            () => this.evict(key, entry),
+        ),
+        shareReplay(1),
+    );
+    this.entries.set(key, entry);
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxSize) {
+        break;
+      }
+      this.entries.delete(oldest);
+      evictions++;
+    }
+    this.updateStats({misses: 1, evictions});
+    return entry.shared;
+  }
+
+  /** Removes the entry of the key. Returns whether there was one. */
+  invalidate(key: K): boolean {
+    const deleted = this.entries.delete(key);
+    if (deleted) {
+      this.updateStats({});
+    }
+    return deleted;
+  }
+
+  /** Removes all entries. */
+  clear(): void {
+    if (this.entries.size > 0) {
+      this.entries.clear();
+      this.updateStats({});
+    }
+  }
+
+  private evict(key: K, entry: CacheEntry<V>) {
+    // The key may already hold a newer entry.
+    if (this.entries.get(key) === entry) {
+      this.entries.delete(key);
+      this.updateStats({evictions: 1});
+    }
+  }
+
+  private updateStats({hits = 0, misses = 0, evictions = 0}: Partial<ObservableCacheStats>) {
+    const stats = this.stats.value;
+    this.stats.next({
+      hits: stats.hits + hits,
+      misses: stats.misses + misses,
+      evictions: stats.evictions + evictions,
+      size: this.entries.size,
+    });
+  }
+}
@@ -0,0 +1,109 @@
+import {cold, hot, time} from 'jasmine-marbles';
+import {SubscriptionLog} from 'rxjs/internal/testing/SubscriptionLog';
+import {map, take} from 'rxjs/operators';
+import {
+  expectObservable,
+  expectSubscriptions,
+  marbleMatchers,
+} from './expect_marbles';
+
+
+describe('expectObservable()', () => {
+  it('should ignore spaces and allow time progression like cold()', () => {
+    const o = cold('-a-b-|');
+    expectObservable(o).toBe('  -a 10ms b-| ');
+  });
+
+  it('should subscribe at the subscription marbles', () => {
+    const o = hot('-a-b-c-|');
+    expectObservable(o, '  --^-!  ').toBe('---b-');
+  });
+
+  it('should compare values and errors', () => {
+    const o = cold('-x-#', {x: 1}, new Error('failed'));
+    expectObservable(o.pipe(map(x => ({id: x}))))
+        .toBe('-a-#', {a: {id: 1}}, new Error('failed'));
+  });
+
+  it('should show the first diverging frame on failure', () => {
+    const o = cold('-a-b-|');
+    expect(() => expectObservable(o).toBe('-a-c-|')).toThrowError([
+      'Marbles differ at frame 3:',
+      '  expected: -a-c-|',
+      '  actual:   -a-b-|',
+      '               ^',
+      '  expected at frame 3: [{"kind":"N","value":"c"}]',
+      '  actual at frame 3: [{"kind":"N","value":"b"}]',
+    ].join('\n'));
+  });
+
+  it('should write values with the keys of the expected values', () => {
+    const o = cold('-x-y|', {x: 1, y: 3});
+    expect(() => expectObservable(o).toBe('-a-b|', {a: 1, b: 2}))
+        .toThrowError(/expected: -a-b\|\n {2}actual: {3}-a-\?\|\n/);
+  });
+});
+
+describe('expectSubscriptions()', () => {
+  it('should ignore spaces in subscription marbles like cold()', () => {
+    const log = new SubscriptionLog(time('---|'), time('------|'));
+    expectSubscriptions([log]).toBe('   ---^--! ');
+    expectSubscriptions([log]).toBe('30ms ^--! ');
+  });
+
+  it('should compare the subscriptions of cold()', () => {
+    const x = cold('-a-b-c|');
+    expectObservable(x.pipe(take(2)), '  -^  ').toBe('--a-(b|)');
+    expectSubscriptions(x).toBe('  -^--!  ');
+  });
+
+  it('should compare the subscriptions of hot()', () => {
+    const y = hot('-a-b-c|');
+    expectObservable(y.pipe(take(1))).toBe('-(a|)');
+    expectSubscriptions(y).toBe(['^!']);
+  });
+
+  it('should show the first diverging frame on failure', () => {
+    const x = cold('-a-b|');
+    expectObservable(x).toBe('-a-b|');
+    expect(() => expectSubscriptions(x).toBe(['^---!', '--^-!']))
+        .toThrowError([
+          'Subscriptions differ at frame 2:',
+          '  expected 0: ^---!',
+          '  actual 0:   ^---!',
+          '  expected 1: --^-!',
+          '  actual 1:   (none)',
+          '                ^',
+        ].join('\n'));
+  });
+});
+
+describe('marbleMatchers', () => {
+  beforeEach(() => {
+    jasmine.addMatchers(marbleMatchers);
+  });
+
+  it('should compare subscriptions ignoring spaces with toHaveSubscriptionMarbles()', () => {
+    const x = cold('-a-b-c|');
+    expect(x.pipe(take(2))).toBeObservable(cold('-a-(b|)'));
+    expect(x).toHaveSubscriptionMarbles('  ^--!  ');
+    expect(x).not.toHaveSubscriptionMarbles('^---!');
+  });
+
+  it('should fail with the diff of expectSubscriptions()', () => {
+    const x = cold('-a-b|');
+    expectObservable(x).toBe('-a-b|');
+    const matcher = marbleMatchers.toHaveSubscriptionMarbles(jasmine.matchersUtil, []);
+    expect(matcher.compare(x, ['^---!', '--^-!'])).toEqual({
+      pass: false,
+      message: [
+        'Subscriptions differ at frame 2:',
+        '  expected 0: ^---!',
+        '  actual 0:   ^---!',
+        '  expected 1: --^-!',
+        '  actual 1:   (none)',
+        '                ^',
+      ].join('\n'),
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import {getTestScheduler} from 'jasmine-marbles';
+import {Notification, Observable, Subscription} from 'rxjs';
+import {TestScheduler} from 'rxjs/testing';
+import {SubscriptionLog} from 'rxjs/internal/testing/SubscriptionLog';
+import {TestMessage} from 'rxjs/internal/testing/TestMessage';
+import {writeSubscriptionMarbles} from './record_marbles';
+
+
+/** Compares an observable with marbles, see expectObservable(). */
+export interface ObservableExpectation<T> {
+  toBe(marbles: string, values?: {[key: string]: T}, error?: unknown): void;
+}
+
+/** Compares subscriptions with marbles, see expectSubscriptions(). */
+export interface SubscriptionsExpectation {
+  toBe(marbles: string|string[]): void;
+}
+
+/** A test observable of cold() or hot(). */
+interface Subscribed {
+  getSubscriptions(): SubscriptionLog[];
+}
+
+/** Rows of a diff, by label. */
+type DiffRows = Array<[string, string]>;
+
+/** Key of a value that has none in the expected values. */
+const UNKNOWN_KEY = '?';
+
+/**
+ * Returns the JSON of a notification. Errors are compared by name and
+ * message, like toBeObservable() does, as their stacks differ.
+ */
+function identityOf({kind, value, error}: Notification<unknown>): string {
+  const comparable = error instanceof Error ?
+      {name: error.name, message: error.message} :
+      error;
+  return JSON.stringify({kind, value, error: comparable});
+}
+
+/** Returns the first index below count that matches, if any. */
+function findIndex(
+    count: number, predicate: (index: number) => boolean): number|undefined {
+  for (let i = 0; i < count; i++) {
+    if (predicate(i)) {
+      return i;
+    }
+  }
+  return undefined;
+}
+
+/** Writes messages as marbles, one character per frame. */
+function writeMarbles(
+    messages: TestMessage[], frameSize: number,
+    keyOf: (value: unknown) => string): string {
+  const frames = new Map<number, string[]>();
+  for (const {frame, notification} of messages) {
+    const events = frames.get(frame / frameSize) || [];
+    events.push(
+        notification.kind === 'N' ? keyOf(notification.value) :
+            notification.kind === 'E' ? '#' : '|');
+    frames.set(frame / frameSize, events);
+  }
+  let marbles = '';
+  frames.forEach((events, frame) => {
+    // Events right after a group follow it, they cannot be aligned
+    marbles += '-'.repeat(Math.max(0, frame - marbles.length));
+    marbles += events.length > 1 ? `(${events.join('')})` : events[0];
+  });
+  return marbles;
+}
+
+/** Writes a subscription log as marbles. */
+function writeLog(
+    {subscribedFrame, unsubscribedFrame}: SubscriptionLog,
+    frameSize: number): string {
+  return writeSubscriptionMarbles(
+      subscribedFrame / frameSize,
+      unsubscribedFrame === Number.POSITIVE_INFINITY ?
+          undefined :
+          unsubscribedFrame / frameSize);
+}
+
+/** Returns the aligned rows with a caret under the diverging frame. */
+function formatDiff(
+    title: string, rows: DiffRows, caretAfter: number, frame: number,
+    details: string[] = []): string {
+  const width = Math.max(...rows.map(([label]) => label.length)) + 2;
+  const lines = rows.map(([label, marbles]) => {
+    return `  ${`${label}:`.padEnd(width)}${marbles}`;
+  });
+  lines.splice(caretAfter + 1, 0, `  ${' '.repeat(width + frame)}^`);
+  return [`${title} at frame ${frame}:`, ...lines, ...details].join('\n');
+}
+
+/**
+ * Subscribes to the observable on getTestScheduler() as in expectObservable()
+ * of the TestScheduler, flushes, then compares what was emitted with marbles
+ * parsed the way cold() parses them: spaces are ignored and time progression
+ * is allowed. Values are compared as JSON.
+ *
+ * On failure, throws an error with the expected and actual marbles aligned,
+ * e.g.
+ *   Marbles differ at frame 3:
+ *     expected: -a-b|
+ *     actual:   -a-c|
+ *                  ^
+ */
+export function expectObservable<T>(
+    observable: Observable<T>,
+    subscriptionMarbles?: string): ObservableExpectation<T> {
+  return {
+    toBe(marbles, values, error) {
+      const scheduler = getTestScheduler();
+      const frameSize = scheduler.createTime('-|');
+      const start = scheduler.now();
+      const {subscribedFrame, unsubscribedFrame} =
+          TestScheduler.parseMarblesAsSubscriptions(
+              subscriptionMarbles || '^', true);
+      const actual: TestMessage[] = [];
+      const record = (notification: Notification<T>) => actual.push(
+          {frame: scheduler.now() - start, notification});
+      const subscription = new Subscription();
+      subscription.add(scheduler.schedule(() => subscription.add(
+          observable.subscribe(
+              value => record(Notification.createNext(value)),
+              err => record(Notification.createError(err)),
+              () => record(Notification.createComplete()),
+          )), subscribedFrame));
+      if (unsubscribedFrame !== Number.POSITIVE_INFINITY) {
+        subscription.add(scheduler.schedule(
+            () => subscription.unsubscribe(), unsubscribedFrame));
+      }
+      scheduler.flush();
+      // Streams that never complete are stopped after flush
+      subscription.unsubscribe();
+
+      const expected =
+          TestScheduler.parseMarbles(marbles, values, error, false, true);
+      const count = Math.max(expected.length, actual.length);
+      const diverging = findIndex(count, i => {
+        const e = expected[i];
+        const a = actual[i];
+        return !e || !a || e.frame !== a.frame ||
+            identityOf(e.notification) !== identityOf(a.notification);
+      });
+      if (diverging === undefined) {
+        return;
+      }
+      const keys = new Map<string, string>();
+      for (const key of Object.keys(values || {})) {
+        keys.set(JSON.stringify(values![key]), key);
+      }
+      const keyOf = (value: unknown) => keys.get(JSON.stringify(value)) ||
+          (typeof value === 'string' && value.length === 1 ? value :
+                                                             UNKNOWN_KEY);
+      const frame = Math.min(
+          ...[expected[diverging], actual[diverging]]
+              .filter(message => message)
+              .map(message => message.frame / frameSize));
+      const describeFrame = (label: string, messages: TestMessage[]) => {
+        const notifications = messages
+            .filter(message => message.frame / frameSize === frame)
+            .map(message => identityOf(message.notification));
+        return `  ${label} at frame ${frame}: [${notifications.join(', ')}]`;
+      };
+      throw new Error(formatDiff(
+          'Marbles differ',
+          [
+            ['expected', writeMarbles(expected, frameSize, keyOf)],
+            ['actual', writeMarbles(actual, frameSize, keyOf)],
+          ],
+          1, frame,
+          [
+            describeFrame('expected', expected),
+            describeFrame('actual', actual),
+          ]));
+    },
+  };
+}
+
+/**
+ * Compares the subscriptions of a cold() or hot() observable, or subscription
+ * logs, with subscription marbles parsed the way cold() parses marbles: unlike
+ * toHaveSubscriptions() and expectSubscriptions() of the TestScheduler, spaces
+ * are ignored and time progression is allowed. Flushes getTestScheduler()
+ * first, so it can follow expectObservable() of either.
+ *
+ * On failure, throws an error with the expected and actual subscriptions
+ * aligned and a caret under the first diverging frame.
+ */
+export function expectSubscriptions(
+    actual: Subscribed|SubscriptionLog[]): SubscriptionsExpectation {
+  return {
+    toBe(marbles) {
+      const diff = diffSubscriptions(actual, marbles);
+      if (diff !== undefined) {
+        throw new Error(diff);
+      }
+    },
+  };
+}
+
+/** Returns the diff of expectSubscriptions(), if the subscriptions differ. */
+function diffSubscriptions(
+    actual: Subscribed|SubscriptionLog[],
+    marbles: string|string[]): string|undefined {
+  const scheduler = getTestScheduler();
+  const frameSize = scheduler.createTime('-|');
+  scheduler.flush();
+  const logs = Array.isArray(actual) ? actual : actual.getSubscriptions();
+  const expected = (Array.isArray(marbles) ? marbles : [marbles])
+      .map(m => TestScheduler.parseMarblesAsSubscriptions(m, true));
+  const count = Math.max(expected.length, logs.length);
+  const diverging = findIndex(count, i => {
+    const e = expected[i];
+    const a = logs[i];
+    return !e || !a || e.subscribedFrame !== a.subscribedFrame ||
+        e.unsubscribedFrame !== a.unsubscribedFrame;
+  });
+  if (diverging === undefined) {
+    return undefined;
+  }
+  const e = expected[diverging];
+  const a = logs[diverging];
+  const frame = !e || !a ?
+      (e || a).subscribedFrame / frameSize :
+      e.subscribedFrame !== a.subscribedFrame ?
+      Math.min(e.subscribedFrame, a.subscribedFrame) / frameSize :
+      Math.min(e.unsubscribedFrame, a.unsubscribedFrame) / frameSize;
+  const rows: DiffRows = [];
+  for (let i = 0; i < count; i++) {
+    const suffix = count > 1 ? ` ${i}` : '';
+    rows.push(
+        [
+          `expected${suffix}`,
+          expected[i] ? writeLog(expected[i], frameSize) : '(none)',
+        ],
+        [
+          `actual${suffix}`,
+          logs[i] ? writeLog(logs[i], frameSize) : '(none)',
+        ]);
+  }
+  return formatDiff('Subscriptions differ', rows, diverging * 2 + 1, frame);
+}
+
+declare global {
+  namespace jasmine {
+    interface Matchers<T> {
+      /** See marbleMatchers. */
+      toHaveSubscriptionMarbles(marbles: string|string[]): boolean;
+    }
+  }
+}
+
+/**
+ * Matchers to register with jasmine.addMatchers(), e.g. in a beforeEach().
+ * expect(x).toHaveSubscriptionMarbles(marbles) is like toHaveSubscriptions()
+ * of jasmine-marbles, but compares like expectSubscriptions(), with the same
+ * diff on failure.
+ */
+export const marbleMatchers: jasmine.CustomMatcherFactories = {
+  toHaveSubscriptionMarbles: () => ({
+    compare(actual: Subscribed|SubscriptionLog[], marbles: string|string[]) {
+      const message = diffSubscriptions(actual, marbles);
+      return {pass: message === undefined, message};
+    },
+  }),
+};
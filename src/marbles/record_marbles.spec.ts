@@ -0,0 +1,63 @@
+import {cold, getTestScheduler} from 'jasmine-marbles';
+import {merge, timer} from 'rxjs';
+import {recordMarbles} from './record_marbles';
+
+
+describe('recordMarbles()', () => {
+  it('should record values, groups and completion', () => {
+    const recording = recordMarbles(cold('-a-(bc)--d|'));
+    expect(recording).toEqual({
+      marbles: '-a-(bc)--d|',
+      values: {a: 'a', b: 'b', c: 'c', d: 'd'},
+      error: undefined,
+      subscriptionMarbles: '^---------!',
+    });
+  });
+
+  it('should generate keys for values that are not one-character strings', () => {
+    const recording = recordMarbles(cold('-x-y-x|', {x: {id: 1}, y: 2}));
+    expect(recording.marbles).toBe('-a-b-a|');
+    expect(recording.values).toEqual({a: {id: 1}, b: 2});
+  });
+
+  it('should record the error', () => {
+    const error = new Error('failed');
+    const recording = recordMarbles(cold('-a#', undefined, error));
+    expect(recording.marbles).toBe('-a#');
+    expect(recording.error).toBe(error);
+    expect(recording.subscriptionMarbles).toBe('^-!');
+  });
+
+  it('should write long gaps with time progression', () => {
+    const recording = recordMarbles(timer(300, getTestScheduler()));
+    expect(recording.marbles).toBe('300ms (a|)');
+    expect(recording.values).toEqual({a: 0});
+  });
+
+  it('should record marbles that cold() turns back into the same stream', () => {
+    const recording = recordMarbles(merge(
+        cold('(ab)------------------c|'),
+        timer(50, getTestScheduler()),
+    ));
+    // 'c' is taken by 0 when the value 'c' is emitted
+    expect(recording.marbles).toBe('(ab)-c 160ms d|');
+    const pasted = cold(recording.marbles, recording.values);
+    expect(recordMarbles(pasted)).toEqual(recording);
+  });
+
+  it('should record a stream that never completes until flushed', () => {
+    const recording = recordMarbles(cold('a-b-'));
+    expect(recording.marbles).toBe('a-b');
+    expect(recording.subscriptionMarbles).toBe('^');
+  });
+
+  it('should use frameSize as the time of a frame', () => {
+    const recording = recordMarbles(cold('a-b-c|'), {frameSize: 20});
+    expect(recording.marbles).toBe('ab(c|)');
+  });
+
+  it('should throw when events are hidden by the group before them', () => {
+    expect(() => recordMarbles(merge(cold('(ab)'), cold('-c'))))
+        .toThrowError('recordMarbles cannot write frame 1, the group before it lasts until frame 4');
+  });
+});
@@ -0,0 +1,210 @@
+import {getTestScheduler} from 'jasmine-marbles';
+import {Observable, Subscription} from 'rxjs';
+import {TestScheduler} from 'rxjs/testing';
+
+
+/** Marbles recorded from an observable, in the arguments order of cold(). */
+export interface MarbleRecording<T> {
+  marbles: string;
+  values: {[key: string]: T};
+  error?: unknown;
+  /** Subscription of the recorder, e.g. '^---!'. */
+  subscriptionMarbles: string;
+}
+
+/** Options for recordMarbles(). */
+export interface RecordMarblesOptions {
+  /** Default: getTestScheduler(). */
+  scheduler?: TestScheduler;
+  /** Time of a frame. Default: the time of '-' in marbles. */
+  frameSize?: number;
+}
+
+/** Gaps longer than this many frames are written with time progression. */
+const LONG_GAP = 10;
+/** Candidate keys of values that are not one-character strings. */
+const KEYS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+/** Characters with a meaning in marbles. */
+const SYNTAX = ' -|#^!()';
+
+interface RecordedFrame {
+  frame: number;
+  /** Marble characters emitted in the frame. */
+  events: string[];
+}
+
+/**
+ * Assigns the keys of values: a one-character string is its own key, like in
+ * cold('a-b'), and other values get the next free letter. Equal values share
+ * the same key.
+ */
+class ValueKeys<T> {
+  readonly values: {[key: string]: T} = {};
+  private readonly keysByValue = new Map<string|T, string>();
+
+  keyOf(value: T): string {
+    const identity = this.identityOf(value);
+    let key = this.keysByValue.get(identity);
+    if (key === undefined) {
+      key = this.isOwnKey(value) ? value :
+          [...KEYS].find(candidate => !(candidate in this.values));
+      if (key === undefined) {
+        throw new Error('recordMarbles ran out of value keys');
+      }
+      this.keysByValue.set(identity, key);
+      this.values[key] = value;
+    }
+    return key;
+  }
+
+  private isOwnKey(value: T): value is T&string {
+    return typeof value === 'string' && value.length === 1 &&
+        !SYNTAX.includes(value) && !(value in this.values);
+  }
+
+  private identityOf(value: T): string|T {
+    const json = JSON.stringify(value);
+    return json === undefined ? value : json;
+  }
+}
+
+/**
+ * Writes subscription marbles from frames, e.g. '-^---!'. Without an
+ * unsubscription, the marbles end at the subscription.
+ */
+export function writeSubscriptionMarbles(
+    subscribedFrame: number, unsubscribedFrame?: number): string {
+  const subscribed = '-'.repeat(subscribedFrame);
+  if (unsubscribedFrame === undefined) {
+    return `${subscribed}^`;
+  }
+  const duration = unsubscribedFrame - subscribedFrame;
+  if (duration === 0) {
+    return `${subscribed}(^!)`;
+  }
+  return `${subscribed}^${'-'.repeat(duration - 1)}!`;
+}
+
+/**
+ * Records the notifications of subscriptions made during a flush of the
+ * TestScheduler, by frame since the recorder was created.
+ */
+export class MarbleRecorder<T> {
+  private readonly start: number;
+  private readonly frames: RecordedFrame[] = [];
+  private readonly keys = new ValueKeys<T>();
+  /** The error notified, if any. */
+  error?: unknown;
+  /** Frame of the subscription, if subscribed. */
+  subscribedFrame?: number;
+  /** Frame of the completion, error or unsubscription, if any. */
+  unsubscribedFrame?: number;
+
+  constructor(
+      private readonly scheduler: TestScheduler,
+      private readonly frameSize: number) {
+    this.start = scheduler.now();
+  }
+
+  /** Values by their keys in the marbles. */
+  get values(): {[key: string]: T} {
+    return this.keys.values;
+  }
+
+  /** Subscribes to the observable now. */
+  subscribe(observable: Observable<T>): Subscription {
+    this.subscribedFrame = this.frameNow();
+    const subscription = observable.subscribe(
+        value => this.record(this.keys.keyOf(value)),
+        err => {
+          this.error = err;
+          this.record('#');
+        },
+        () => this.record('|'),
+    );
+    subscription.add(() => {
+      if (this.unsubscribedFrame === undefined) {
+        this.unsubscribedFrame = this.frameNow();
+      }
+    });
+    return subscription;
+  }
+
+  /**
+   * Returns the notifications as marbles. Without time progression, every
+   * frame takes one character, so that the marbles of recorders created at the
+   * same time are aligned.
+   */
+  toMarbles({timeProgression = true} = {}): string {
+    let marbles = '';
+    let nextFrame = 0;
+    for (const {frame, events} of this.frames) {
+      if (frame < nextFrame) {
+        throw new Error(
+            `recordMarbles cannot write frame ${frame}, ` +
+            `the group before it lasts until frame ${nextFrame}`);
+      }
+      const gap = frame - nextFrame;
+      if (timeProgression && gap > LONG_GAP) {
+        marbles += `${marbles ? ' ' : ''}${gap * this.frameSize}ms `;
+      } else {
+        marbles += '-'.repeat(gap);
+      }
+      // A group takes the frames of its parentheses too
+      marbles += events.length > 1 ? `(${events.join('')})` : events[0];
+      nextFrame = frame + (events.length > 1 ? events.length + 2 : 1);
+    }
+    return marbles;
+  }
+
+  /** Returns the subscription as marbles, e.g. '-^---!'. */
+  toSubscriptionMarbles(): string {
+    if (this.subscribedFrame === undefined) {
+      return '';
+    }
+    return writeSubscriptionMarbles(
+        this.subscribedFrame, this.unsubscribedFrame);
+  }
+
+  private frameNow(): number {
+    return Math.floor((this.scheduler.now() - this.start) / this.frameSize);
+  }
+
+  private record(event: string) {
+    const frame = this.frameNow();
+    const last = this.frames[this.frames.length - 1];
+    if (last && last.frame === frame) {
+      last.events.push(event);
+    } else {
+      this.frames.push({frame, events: [event]});
+    }
+  }
+}
+
+/**
+ * Subscribes to the observable, flushes the TestScheduler and returns what
+ * was emitted as marbles that can be pasted into cold(). Same-frame events
+ * are grouped, e.g. '(ab)', and long gaps are written as time progression,
+ * e.g. 'a 200ms b'.
+ *
+ * A group lasts as many frames as its characters, so events right after a
+ * group cannot be written and throw an error.
+ */
+export function recordMarbles<T>(observable: Observable<T>, {
+  scheduler = getTestScheduler(),
+  frameSize = scheduler.createTime('-|'),
+}: RecordMarblesOptions = {}): MarbleRecording<T> {
+  const recorder = new MarbleRecorder<T>(scheduler, frameSize);
+  const subscription = recorder.subscribe(observable);
+  scheduler.flush();
+  // Streams that never complete are stopped after flush, which is not recorded
+  const subscriptionMarbles = recorder.toSubscriptionMarbles();
+  subscription.unsubscribe();
+
+  return {
+    marbles: recorder.toMarbles(),
+    values: recorder.values,
+    error: recorder.error,
+    subscriptionMarbles,
+  };
+}
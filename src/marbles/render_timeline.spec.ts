@@ -0,0 +1,42 @@
+import {cold, getTestScheduler, time} from 'jasmine-marbles';
+import {auditTime, debounceTime, map} from 'rxjs/operators';
+import {renderTimeline} from './render_timeline';
+
+
+describe('renderTimeline()', () => {
+  it('should align labelled lanes with their timers', () => {
+    const original = cold('--abc---d--|');
+    const duration = time('--|');
+    const timeline = renderTimeline({
+      original,
+      auditTime: scheduler => original.pipe(auditTime(duration, scheduler)),
+      debounceTime: scheduler => original.pipe(debounceTime(duration, scheduler)),
+    });
+    expect(timeline.toText()).toBe([
+      'original    : --abc---d--|',
+      'auditTime   : ----c-----d|',
+      '       timer: --!-----!--|',
+      'debounceTime: ------c---d|',
+      '       timer: ----!---!--|',
+    ].join('\n'));
+  });
+
+  it('should draw the subscription of a lane', () => {
+    const timeline = renderTimeline({
+      values: {observable: cold('a-b-c-d|').pipe(map(v => v.toUpperCase())), subscription: '-^--!'},
+    });
+    expect(timeline.rows).toEqual([
+      {label: 'values', marbles: '-A-B', annotation: false},
+      {label: 'subs', marbles: '-^--!', annotation: true},
+    ]);
+  });
+
+  it('should export SVG', () => {
+    const svg = renderTimeline({'a<b': cold('a-#')}).toSvg();
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+    expect(svg).toContain('>a&#60;b</text>');
+    expect(svg).toContain('<circle');
+    expect(svg).toContain('fill="#c00">#</text>');
+    expect(svg).toMatch(/<\/svg>$/);
+  });
+});
@@ -0,0 +1,264 @@
+import {getTestScheduler} from 'jasmine-marbles';
+import {
+  Observable,
+  SchedulerAction,
+  SchedulerLike,
+  Subscription,
+} from 'rxjs';
+import {TestScheduler} from 'rxjs/testing';
+import {MarbleRecorder} from './record_marbles';
+
+
+/**
+ * Creates the observable of a lane with the given scheduler, so that the
+ * timers it schedules are drawn in a 'timer' row.
+ */
+export type LaneFactory = (scheduler: SchedulerLike) => Observable<unknown>;
+
+/** A lane of renderTimeline() with annotations. */
+export interface TimelineLane {
+  observable: Observable<unknown>|LaneFactory;
+  /**
+   * When to subscribe and unsubscribe, as in expectObservable(). It is drawn
+   * in a 'subs' row.
+   */
+  subscription?: string;
+}
+
+/** A row of a rendered timeline. */
+export interface TimelineRow {
+  label: string;
+  marbles: string;
+  /** Whether the row annotates the lane above it. */
+  annotation: boolean;
+}
+
+/** Options for renderTimeline(). */
+export interface RenderTimelineOptions {
+  /** Default: getTestScheduler(). */
+  scheduler?: TestScheduler;
+  /** Time of a frame. Default: the time of '-' in marbles. */
+  frameSize?: number;
+}
+
+/** Sizes of the SVG, in pixels. */
+const SVG_CELL = 16;
+const SVG_ROW = 28;
+const SVG_CHAR = 8;
+const SVG_FONT = 13;
+/** Marble characters that are not values. */
+const SYNTAX = '-|#^!()';
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+/** A timer started by a lane. */
+interface TimerStart {
+  startedAt: number;
+  fired: boolean;
+  /** When it was unsubscribed before firing, if it was. */
+  cancelledAt?: number;
+}
+
+/** Scheduler that records when timers are started. */
+class TimerRecorder implements SchedulerLike {
+  private readonly timers: TimerStart[] = [];
+
+  constructor(private readonly scheduler: SchedulerLike) {}
+
+  /** Start times of the timers. */
+  get starts(): number[] {
+    return this.timers.map(timer => timer.startedAt);
+  }
+
+  now(): number {
+    return this.scheduler.now();
+  }
+
+  schedule<T>(
+      work: (this: SchedulerAction<T>, state?: T) => void, delay = 0,
+      state?: T): Subscription {
+    const recorder = this;
+    let current = this.start();
+    const subscription = this.scheduler.schedule(function timerFired(
+        this: SchedulerAction<T>, s?: T) {
+      current.fired = true;
+      // A recurring timer starts again when it reschedules itself.
+      const reschedule = this.schedule;
+      this.schedule = (next?: T, nextDelay?: number) => {
+        current = recorder.start();
+        return reschedule.call(this, next, nextDelay);
+      };
+      try {
+        work.call(this, s);
+      } finally {
+        this.schedule = reschedule;
+      }
+    }, delay, state);
+    subscription.add(() => {
+      if (!current.fired) {
+        current.cancelledAt = this.now();
+      }
+    });
+    return subscription;
+  }
+
+  private start(): TimerStart {
+    const now = this.now();
+    const last = this.timers[this.timers.length - 1];
+    // A timer cancelled to start again, as in debounceTime(), is not drawn.
+    if (last && !last.fired && last.cancelledAt === now) {
+      this.timers.pop();
+    }
+    const timer: TimerStart = {startedAt: now, fired: false};
+    this.timers.push(timer);
+    return timer;
+  }
+}
+
+/** Lanes and annotations rendered by renderTimeline(). */
+export class Timeline {
+  constructor(readonly rows: TimelineRow[]) {}
+
+  /**
+   * Returns aligned rows, e.g.
+   *   original    : --abc---|
+   *   auditTime   : ----c-----|
+   *          timer: --!-----|
+   */
+  toText(): string {
+    const width = Math.max(...this.rows.map(row => row.label.length));
+    return this.rows
+        .map(({label, marbles, annotation}) => {
+          const padded =
+              annotation ? label.padStart(width) : label.padEnd(width);
+          return `${padded}: ${marbles}`;
+        })
+        .join('\n');
+  }
+
+  /** Returns the rows drawn with a circle for each value. */
+  toSvg(): string {
+    const labelWidth =
+        (Math.max(...this.rows.map(row => row.label.length)) + 2) * SVG_CHAR;
+    const columns = Math.max(...this.rows.map(row => row.marbles.length));
+    const width = labelWidth + (columns + 1) * SVG_CELL;
+    const height = (this.rows.length + 0.5) * SVG_ROW;
+    const elements: string[] = [];
+    this.rows.forEach(({label, marbles, annotation}, index) => {
+      const y = (index + 1) * SVG_ROW;
+      elements.push(
+          `<text x="${labelWidth - SVG_CHAR}" y="${y}" text-anchor="end"` +
+          `${annotation ? ' fill="#888"' : ''}>${escapeXml(label)}</text>`);
+      const end = labelWidth + marbles.length * SVG_CELL;
+      elements.push(
+          `<line x1="${labelWidth}" y1="${y - 4}" x2="${end}" y2="${y - 4}" ` +
+          'stroke="#ccc"/>');
+      [...marbles].forEach((c, column) => {
+        const x = labelWidth + (column + 0.5) * SVG_CELL;
+        if (c === '-') {
+          return;
+        }
+        if (!SYNTAX.includes(c)) {
+          elements.push(
+              `<circle cx="${x}" cy="${y - 4}" r="7" fill="#fff" ` +
+              'stroke="#333"/>');
+        }
+        const color = c === '#' ? '#c00' : '#000';
+        elements.push(
+            `<text x="${x}" y="${y}" text-anchor="middle" fill="${color}">` +
+            `${escapeXml(c)}</text>`);
+      });
+    });
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" ` +
+          `height="${height}" font-family="monospace" font-size="${SVG_FONT}">`,
+      ...elements.map(element => `  ${element}`),
+      '</svg>',
+    ].join('\n');
+  }
+}
+
+function toLane(
+    input: Observable<unknown>|LaneFactory|TimelineLane): TimelineLane {
+  return input instanceof Observable || typeof input === 'function' ?
+      {observable: input} :
+      input;
+}
+
+function toTimerMarbles(frames: number[], endFrame?: number): string {
+  const last = Math.max(-1, ...frames, endFrame === undefined ? -1 : endFrame);
+  const marbles = [...'-'.repeat(last + 1)];
+  for (const frame of frames) {
+    marbles[frame] = '!';
+  }
+  if (endFrame !== undefined) {
+    marbles[endFrame] = '|';
+  }
+  return marbles.join('');
+}
+
+/**
+ * Runs the lanes on one TestScheduler and returns them as aligned marbles,
+ * e.g. to draw the diagram comparing operators from the code it describes.
+ * Every frame takes one character, so values cannot follow a group closely.
+ */
+export function renderTimeline(
+    lanes: {[label: string]: Observable<unknown>|LaneFactory|TimelineLane}, {
+      scheduler = getTestScheduler(),
+      frameSize = scheduler.createTime('-|'),
+    }: RenderTimelineOptions = {}): Timeline {
+  const start = scheduler.now();
+  const recorded = Object.keys(lanes).map(label => {
+    const {observable, subscription} = toLane(lanes[label]);
+    let timers: TimerRecorder|undefined;
+    let source: Observable<unknown>;
+    if (typeof observable === 'function') {
+      timers = new TimerRecorder(scheduler);
+      source = observable(timers);
+    } else {
+      source = observable;
+    }
+    const recorder = new MarbleRecorder<unknown>(scheduler, frameSize);
+    const {subscribedFrame, unsubscribedFrame} =
+        TestScheduler.parseMarblesAsSubscriptions(subscription || '^');
+    const teardown = new Subscription();
+    teardown.add(scheduler.schedule(
+        () => teardown.add(recorder.subscribe(source)), subscribedFrame));
+    if (unsubscribedFrame !== Number.POSITIVE_INFINITY) {
+      teardown.add(scheduler.schedule(
+          () => teardown.unsubscribe(), unsubscribedFrame));
+    }
+    return {label, subscription, timers, recorder, teardown};
+  });
+  scheduler.flush();
+
+  const rows: TimelineRow[] = [];
+  for (const {label, subscription, timers, recorder, teardown} of recorded) {
+    rows.push({
+      label,
+      marbles: recorder.toMarbles({timeProgression: false}),
+      annotation: false,
+    });
+    if (subscription) {
+      rows.push({
+        label: 'subs',
+        marbles: recorder.toSubscriptionMarbles(),
+        annotation: true,
+      });
+    }
+    if (timers) {
+      const frames = timers.starts.map(
+          time => Math.floor((time - start) / frameSize));
+      rows.push({
+        label: 'timer',
+        marbles: toTimerMarbles(frames, recorder.unsubscribedFrame),
+        annotation: true,
+      });
+    }
+    // Lanes that never complete are stopped after flush
+    teardown.unsubscribe();
+  }
+  return new Timeline(rows);
+}
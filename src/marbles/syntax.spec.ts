@@ -11,9 +11,12 @@ import {
   resetTestScheduler,
   time
 } from 'jasmine-marbles';
-import {delay, tap} from 'rxjs/operators';
+import {delay, map, tap} from 'rxjs/operators';
 import {defer, from, ReplaySubject, timer} from 'rxjs';
 import {SubscriptionLog} from 'rxjs/internal/testing/SubscriptionLog';
+import {expectSubscriptions} from './expect_marbles';
+import {recordMarbles} from './record_marbles';
+import {resolvedAt} from '../testing/virtual_promise';
 
 
 describe('Jasmine-marbles', () => {
@@ -33,7 +36,7 @@ describe('Jasmine-marbles', () => {
     expect(hot('  -x-y-| ')).toBeObservable(hot('-x-y-|'));
   });
 
-  /** This may be a bug. */
+  /** Unlike cold(), see expectSubscriptions() of ./expect_marbles. */
   it('should NOT ignore spaces in subscription marbles', () => {
     const t1 = time('---|     '); // subscribedFrame
     const t2 = time('------|  '); // unsubscribedFrame
@@ -46,6 +49,13 @@ describe('Jasmine-marbles', () => {
     getTestScheduler().expectSubscriptions([subscriptionLog]).toBe(eSubs3);
   });
 
+  it('should ignore spaces in subscription marbles with expectSubscriptions()', () => {
+    const t1 = time('---|     ');
+    const t2 = time('------|  ');
+    const eSubs = ('   ---^--! '); // like in cold(), spaces are not frames
+    expectSubscriptions([new SubscriptionLog(t1, t2)]).toBe(eSubs);
+  });
+
   it('cold observable dispatch based on subscription', () => {
     const observable = cold('x--y|    ');
     const observer01SubsM = '-^       ';
@@ -165,6 +175,17 @@ describe('Jasmine-marble tests', () => {
     getTestScheduler().expectObservable(recorder).toBe('----2-4-6');
   })
 
+  it('should record any stream with recordMarbles()', () => {
+    const o = cold('--1-2-3|').pipe(map(v => `${v * 2}`));
+    // paste the result back into cold(marbles, values)
+    expect(recordMarbles(o)).toEqual({
+      marbles: '--2-4-6|',
+      values: {'2': '2', '4': '4', '6': '6'},
+      error: undefined,
+      subscriptionMarbles: '^------!',
+    });
+  });
+
   it('should not test with Promise because Promise is async', () => {
     const promiseRecorder = new ReplaySubject<string>(undefined, undefined, getTestScheduler());
     const o = defer(() => from(Promise.resolve('v'))).pipe(tap(v => promiseRecorder.next(v)));
@@ -172,4 +193,9 @@ describe('Jasmine-marble tests', () => {
     // The following will fail
     // getTestScheduler().expectObservable(promiseRecorder).toBe('--v');
   });
+
+  it('should test with VirtualPromise because it resolves on the TestScheduler', () => {
+    const o = defer(() => from(resolvedAt('--v')));
+    getTestScheduler().expectObservable(o, '--^').toBe('----(v|)');
+  });
 });
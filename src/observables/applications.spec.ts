@@ -6,21 +6,21 @@
 import {cold, initTestScheduler} from 'jasmine-marbles';
 import {combineLatest, defer, EMPTY, from, of} from 'rxjs';
 import {concatMap, filter, map, switchMap, takeUntil} from 'rxjs/operators';
+import {filterMap} from '../operators/result';
+import {detectSubscriptionLeaks} from '../testing/subscription_leaks';
+import {VirtualPromise} from '../testing/virtual_promise';
 
 
 describe('Application', () => {
   it('should turn from(Promise) to cold observable with defer()', () => {
     let nextId = 0;
     // do not use from(...) directly, but defer(() => from(...)) to create
-    // a cold observable (i.e. only gen Promise when subscribing)
-    const o = defer(() => from(Promise.resolve(++nextId)));
-    // Must test this way because Promise.resolve is async while marbles is sync
-    o.subscribe((e) => {
-      expect(e).toBe(1);
-    });
-    o.subscribe((e) => {
-      expect(e).toBe(2);
-    });
+    // a cold observable (i.e. only gen Promise when subscribing), or
+    // fromAsync() to also cancel the work on unsubscribe
+    // VirtualPromise resolves on flush() like Promise.resolve() in a microtask
+    const o = defer(() => from(VirtualPromise.resolve(++nextId)));
+    expect(o).toBeObservable(cold('(a|)', {a: 1}));
+    expect(o).toBeObservable(cold('(b|)', {b: 2}));
   });
 
   it('should leverage combineLatest() as a means to gate', async () => {
@@ -63,94 +63,108 @@ describe('Application', () => {
     }
   });
 
-  /** In general, just place takeUntil() at the end to avoid leaks. */
-  it('should put takeUtil() after combineLatest to avoid leaks', () => {
-    {
-      const x = cold('x-----y|        ');
-      const y = cold('---a---b---c---|');
-      const n = cold('----s|          '); // notifier signals STOP
-      const e = cold('---A|           ', {A: ['x', 'a']});
-      const xSubs = ('^---!           ');
-      const ySubs = ('^---!           '); // y is stopped expectedly
-      const rightFlow = x.pipe(
-          stream => combineLatest([stream, y]),
-          takeUntil(n),
-      );
-      expect(rightFlow).toBeObservable(e);
-      expect(x).toHaveSubscriptions(xSubs);
-      expect(y).toHaveSubscriptions(ySubs); // y is stopped expectedly
-    }
-    initTestScheduler();
-    {
-      const x = cold('x-----y|        ');
-      const y = cold('---a---b---c---|');
-      const n = cold('----s|          '); // notifier signals STOP
-      const xSubs = ('^---!           ');
-      const ySubs = ('^--------------!'); // y not stopped -> leak
-      const wrongFlow = x.pipe(
-          takeUntil(n), // takeUntil is before the combineLatest
-          stream => combineLatest([stream, y]),
-      );
-      // The wrongFlow is not stopped by takeUtil()
-      const e = cold('---A---B---C---|', {
-        A: ['x', 'a'],
-        B: ['x', 'b'],
-        C: ['x', 'c'],
-      });
-      expect(wrongFlow).toBeObservable(e);
-      expect(x).toHaveSubscriptions(xSubs);
-      expect(y).toHaveSubscriptions(ySubs);
-    }
-    initTestScheduler();
-    // The wrongFlow is not stopped by takeUntil() because the above code is
-    // equivalent to:
-    {
-      const flow = combineLatest([
-        cold('x----|'),
-        cold('---a---b---c---|'),
-      ]);
-      expect(flow).toBeObservable(cold('---A---B---C---|', {
-        A: ['x', 'a'],
-        B: ['x', 'b'],
-        C: ['x', 'c'],
-      }));
-    }
+  it('should use filterMap() to filter and map with type narrowing', () => {
+    const o = cold('-x-y-z-|');
+    const e = cold('-X---Z-|');
+    // Returning undefined drops the value, and the result type excludes it
+    const good = o.pipe(filterMap(v => v !== 'y' ? v.toUpperCase() : undefined));
+    expect(good).toBeObservable(e);
+    // For per-item errors, see Result in ../operators/result
   });
 
-  /** In general, just place takeUntil() at the end to avoid leaks. */
-  it('should put takeUtil() after high-order operators to avoid leaks', () => {
-    {
-      const x = cold('-a-----b|');
-      const y = cold('c---d|   ');
-      const o = cold('x--y|    ');
-      const n = cold('--n|     '); // notifier signals STOP before y is emitted
-      const e = cold('-a|      ');
-      const xSubs = ('^-!      '); // x is stopped expectedly
-      const ySubs = [] as string[];
-      const rightFlow = o.pipe(
-          switchMap((v: 'x' | 'y') => ({x, y}[v])),
-          takeUntil(n),
-      );
-      expect(rightFlow).toBeObservable(e);
-      expect(x).toHaveSubscriptions(xSubs);
-      expect(y).toHaveSubscriptions(ySubs);
-    }
-    initTestScheduler();
-    {
-      const x = cold('-a-----b|');
-      const y = cold('c---d|   ');
-      const o = cold('x--y|    ');
-      const n = cold('--n|     '); // notifier signals STOP before y is emitted
-      const e = cold('-a-----b|'); // wrong expected result
-      const xSubs = ('^-------!'); // x not stopped -> leak
-      const ySubs = [] as string[];
-      const wrongFlow = o.pipe(
-          takeUntil(n), // takeUntil is before switchMap
-          switchMap((v: 'x' | 'y') => ({x, y}[v])),
-      );
-      expect(wrongFlow).toBeObservable(e);
-      expect(x).toHaveSubscriptions(xSubs);
-      expect(y).toHaveSubscriptions(ySubs);
-    }
+  describe('takeUntil()', () => {
+    // Sources below never complete, so a missing unsubscription is a leak
+    const leaks = detectSubscriptionLeaks();
+
+    /** In general, just place takeUntil() at the end to avoid leaks. */
+    it('should put takeUtil() after combineLatest to avoid leaks', () => {
+      {
+        const x = cold('x-----y|        ');
+        const y = cold('---a---b---c----');
+        const n = cold('----s|          '); // notifier signals STOP
+        const e = cold('---A|           ', {A: ['x', 'a']});
+        const xSubs = ('^---!           ');
+        const rightFlow = x.pipe(
+            stream => combineLatest([stream, y]),
+            takeUntil(n),
+        );
+        expect(rightFlow).toBeObservable(e);
+        expect(x).toHaveSubscriptions(xSubs);
+        expect(leaks.findLeaks()).toEqual([]); // y is stopped expectedly
+      }
+      initTestScheduler();
+      {
+        const x = cold('x-----y|        ');
+        const y = cold('---a---b---c----');
+        const n = cold('----s|          '); // notifier signals STOP
+        const xSubs = ('^---!           ');
+        const wrongFlow = x.pipe(
+            takeUntil(n), // take-until-ok: takeUntil is before the combineLatest
+            stream => combineLatest([stream, y]),
+        );
+        // The wrongFlow is not stopped by takeUtil()
+        const e = cold('---A---B---C----', {
+          A: ['x', 'a'],
+          B: ['x', 'b'],
+          C: ['x', 'c'],
+        });
+        expect(wrongFlow).toBeObservable(e);
+        expect(x).toHaveSubscriptions(xSubs);
+        // y not stopped -> leak
+        expect(leaks.isLeaking(y)).toBe(true);
+        leaks.reset();
+      }
+      initTestScheduler();
+      // The wrongFlow is not stopped by takeUntil() because the above code is
+      // equivalent to:
+      {
+        const flow = combineLatest([
+          cold('x----|'),
+          cold('---a---b---c---|'),
+        ]);
+        expect(flow).toBeObservable(cold('---A---B---C---|', {
+          A: ['x', 'a'],
+          B: ['x', 'b'],
+          C: ['x', 'c'],
+        }));
+      }
+    });
+
+    /** In general, just place takeUntil() at the end to avoid leaks. */
+    it('should put takeUtil() after high-order operators to avoid leaks', () => {
+      {
+        const x = cold('-a-----b-');
+        const y = cold('c---d|   ');
+        const o = cold('x--y|    ');
+        const n = cold('--n|     '); // notifier signals STOP before y is emitted
+        const e = cold('-a|      ');
+        const ySubs = [] as string[];
+        const rightFlow = o.pipe(
+            switchMap((v: 'x' | 'y') => ({x, y}[v])),
+            takeUntil(n),
+        );
+        expect(rightFlow).toBeObservable(e);
+        expect(y).toHaveSubscriptions(ySubs);
+        expect(leaks.findLeaks()).toEqual([]); // x is stopped expectedly
+      }
+      initTestScheduler();
+      {
+        const x = cold('-a-----b-');
+        const y = cold('c---d|   ');
+        const o = cold('x--y|    ');
+        const n = cold('--n|     '); // notifier signals STOP before y is emitted
+        const e = cold('-a-----b-'); // wrong expected result
+        const ySubs = [] as string[];
+        const wrongFlow = o.pipe(
+            takeUntil(n), // take-until-ok: takeUntil is before switchMap
+            switchMap((v: 'x' | 'y') => ({x, y}[v])),
+        );
+        expect(wrongFlow).toBeObservable(e);
+        expect(y).toHaveSubscriptions(ySubs);
+        // x not stopped -> leak
+        expect(leaks.isLeaking(x)).toBe(true);
+        leaks.reset();
+      }
+    });
   });
 });
@@ -28,6 +28,7 @@ import {
   TestColdObservable,
   TestHotObservable,
 } from 'jasmine-marbles/src/test-observables';
+import {combineLatestObject} from '../operators/combine_latest_object';
 
 
 describe('new Observable()', () => {
@@ -233,6 +234,15 @@ describe('Creation operator combineLatest()', () => {
     );
     expect(o).toBeObservable(e);
   });
+
+  it('should be easier to read by key with combineLatestObject()', () => {
+    const x = cold('-x-y-z-|');
+    const y = cold('--a-b|  ');
+    // no destructuring by index, see also forkJoinObject()
+    const o = combineLatestObject({x, y}).pipe(map(({x, y}) => `${x}${y}`));
+    const e = cold('--ABCD-|', {A: 'xa', B: 'ya', C: 'yb', D: 'zb'});
+    expect(o).toBeObservable(e);
+  });
 });
 
 describe('Creation operator zip()', () => {
@@ -27,7 +27,21 @@
  * sampleTime  : ----c-e-g-i-k-m-o-p-----a-c-d---a-b---d-e-f---|
  *        timer: !-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-|
  *
+ * The diagram above is rendered by renderTimeline() in the tests below, where
+ * a timer is drawn when it starts.
+ *
  * Operator debounceTime() is good for feature like: search while typing.
+ *
+ * Custom operator debounceAdvanced() is the lodash-style debounce. By default,
+ * it is the same as debounceTime(). With leading, the first value of a burst
+ * is emitted right away. With maxWait, the pending value is emitted at least
+ * every maxWait during continuous input, so that long bursts are not silent.
+ *
+ * original    : --abcdefghijklmnop------abcd----ab---cd-ef----|
+ * duration 20 : --|
+ * leading     : --a---------------------a-------a----c--------|
+ * lead & trail: --a----------------p----a----d--a--b-c-----f--|
+ * maxWait 40  : ------e---i---m---p---------d------b-----f----|
  */
 import {cold, getTestScheduler, time} from 'jasmine-marbles';
 import {
@@ -76,6 +90,8 @@ import {
   withLatestFrom,
   zipAll
 } from 'rxjs/operators';
+import {renderTimeline} from '../marbles/render_timeline';
+import {debounceAdvanced} from '../operators/debounce_advanced';
 
 
 describe('Operators debounceTime, throttleTime, auditTime, sampleTime comparison', () => {
@@ -90,6 +106,9 @@ describe('Operators debounceTime, throttleTime, auditTime, sampleTime comparison
     // timer for audit     --!--!--!--!--!--!------!--!----!----!--!-----
     const sampleTi = cold('----c-e-g-i-k-m-o-p-----a-c-d---a-b---d-e-f---|');
     // timer for sample    !-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-
+    const leadOnly = cold('--a---------------------a-------a----c--------|');
+    const leadTrai = cold('--a----------------p----a----d--a--b-c-----f--|');
+    const maxWait4 = cold('------e---i---m---p---------d------b-----f----|');
 
     getTestScheduler().expectObservable(
         original.pipe(debounceTime(duration, getTestScheduler())))
@@ -103,6 +122,18 @@ describe('Operators debounceTime, throttleTime, auditTime, sampleTime comparison
     getTestScheduler().expectObservable(
         original.pipe(sampleTime(duration, getTestScheduler())))
         .toBe(sampleTi.marbles);
+    getTestScheduler().expectObservable(
+        original.pipe(debounceAdvanced(duration, {scheduler: getTestScheduler()})))
+        .toBe(debounce.marbles);
+    getTestScheduler().expectObservable(
+        original.pipe(debounceAdvanced(duration, {leading: true, trailing: false, scheduler: getTestScheduler()})))
+        .toBe(leadOnly.marbles);
+    getTestScheduler().expectObservable(
+        original.pipe(debounceAdvanced(duration, {leading: true, trailing: true, scheduler: getTestScheduler()})))
+        .toBe(leadTrai.marbles);
+    getTestScheduler().expectObservable(
+        original.pipe(debounceAdvanced(duration, {maxWait: time('----|'), scheduler: getTestScheduler()})))
+        .toBe(maxWait4.marbles);
 
     const debounceAlternative = switchMap(v => of(v).pipe(delay(duration, getTestScheduler())));
     getTestScheduler().expectObservable(original.pipe(debounceAlternative))
@@ -121,6 +152,32 @@ describe('Operators debounceTime, throttleTime, auditTime, sampleTime comparison
     getTestScheduler().expectObservable(original.pipe(auditAlternativePipe))
         .toBe(auditTim.marbles);
   });
+
+  it('should render the description', () => {
+    const original = cold('--abcdefghijklmnop------abcd----ab---cd-ef----|');
+    const duration = time('--|');
+    const timeline = renderTimeline({
+      'original': original,
+      'duration 20': cold('--|'),
+      'debounceTime': scheduler => original.pipe(debounceTime(duration, scheduler)),
+      'throttleTime': scheduler => original.pipe(throttleTime(duration, scheduler)),
+      'auditTime': scheduler => original.pipe(auditTime(duration, scheduler)),
+      'sampleTime': scheduler => original.pipe(sampleTime(duration, scheduler)),
+    });
+    // same as the top of this file
+    expect(timeline.toText()).toBe([
+      'original    : --abcdefghijklmnop------abcd----ab---cd-ef----|',
+      'duration 20 : --|',
+      'debounceTime: -------------------p---------d-----b-------f--|',
+      '       timer: -----------------!---------!-----!-------!----|',
+      'throttleTime: --a--d--g--j--m--p------a--d----a----c--e-----|',
+      '       timer: --!--!--!--!--!--!------!--!----!----!--!-----|',
+      'auditTime   : ----c--f--i--l--o--p------c--d----b----d--f---|',
+      '       timer: --!--!--!--!--!--!------!--!----!----!--!-----|',
+      'sampleTime  : ----c-e-g-i-k-m-o-p-----a-c-d---a-b---d-e-f---|',
+      '       timer: !-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-!-|',
+    ].join('\n'));
+  });
 });
 
 describe('Operator map()', () => {
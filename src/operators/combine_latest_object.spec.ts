@@ -0,0 +1,80 @@
+import {cold, getTestScheduler} from 'jasmine-marbles';
+import {map} from 'rxjs/operators';
+import {combineLatestObject, forkJoinObject} from './combine_latest_object';
+import {waitUntil} from './wait_until';
+
+
+describe('Custom creator combineLatestObject()', () => {
+  it('should emit the latest values by key once every key has a value', () => {
+    const x = cold('-x-y-z-|');
+    const y = cold('--a-b|  ');
+    const o = combineLatestObject({x, y}).pipe(map(({x, y}) => `${x}${y}`));
+    const e = cold('--ABCD-|', {A: 'xa', B: 'ya', C: 'yb', D: 'zb'});
+    expect(o).toBeObservable(e);
+  });
+
+  it('should emit the first complete values and complete with mode=gate', () => {
+    const user = cold('--u---v|');
+    const config = cold('----c|  ');
+    const o = combineLatestObject({user, config}, {mode: 'gate'});
+    const e = cold('----(a|)', {a: {user: 'u', config: 'c'}});
+    expect(o).toBeObservable(e);
+    expect(user).toHaveSubscriptions('^---!');
+  });
+
+  it('should gate like waitUntil() with mode=gate', () => {
+    const x = cold('-x-y-----z|');
+    const user = cold('--u--------');
+    const config = cold('------c----');
+    const o = x.pipe(
+        waitUntil(combineLatestObject({user, config}, {mode: 'gate'})));
+    expect(o).toBeObservable(cold('------y--z|'));
+  });
+
+  it('should emit the keys that are ready with mode=partial', () => {
+    const user = cold('--u---v|');
+    const config = cold('----c|');
+    const o = combineLatestObject({user, config}, {mode: 'partial'})
+                  .pipe(map(({values, ready}) => ({values, ready: [...ready]})));
+    const e = cold('--a-b-c|', {
+      a: {values: {user: 'u'}, ready: ['user']},
+      b: {values: {user: 'u', config: 'c'}, ready: ['user', 'config']},
+      c: {values: {user: 'v', config: 'c'}, ready: ['user', 'config']},
+    });
+    expect(o).toBeObservable(e);
+  });
+});
+
+describe('Custom creator forkJoinObject()', () => {
+  it('should emit the last values by key when every key completes', () => {
+    const x = cold('-a-b-c--|');
+    const y = cold('--d-e-|  ');
+    const o = forkJoinObject({x, y});
+    const e = cold('--------(A|)', {A: {x: 'c', y: 'e'}});
+    expect(o).toBeObservable(e);
+  });
+
+  it('should emit nothing if a key completes without a value', () => {
+    const x = cold('-a-b-c--|');
+    const y = cold('---|     ');
+    expect(forkJoinObject({x, y})).toBeObservable(cold('---|'));
+  });
+
+  it('should emit the keys that are ready with mode=partial', () => {
+    const x = cold('-a-b-c--|');
+    const y = cold('---|     ');
+    const o = forkJoinObject({x, y}, {mode: 'partial'})
+                  .pipe(map(({values, ready}) => ({values, ready: [...ready]})));
+    const e = cold('--------(A|)', {A: {values: {x: 'c'}, ready: ['x']}});
+    expect(o).toBeObservable(e);
+  });
+
+  it('should throw error if one throws error', () => {
+    const x = cold('-a-b-c--|');
+    const y = cold('--d-e#   ');
+    getTestScheduler().expectObservable(forkJoinObject({x, y})).toBe('-----#');
+    getTestScheduler()
+        .expectObservable(forkJoinObject({x, y}, {mode: 'partial'}))
+        .toBe('-----#');
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  combineLatest,
+  forkJoin,
+  merge,
+  Observable,
+  ObservedValueOf,
+} from 'rxjs';
+import {map, reduce, scan, take, takeLast} from 'rxjs/operators';
+
+
+/** Observables keyed by name. */
+export interface ObservableRecord {
+  [key: string]: Observable<unknown>;
+}
+
+/** The values of the observables of a record or a tuple, by the same keys. */
+export type ObservedValuesOf<O> = {
+  [K in keyof O]: ObservedValueOf<O[K]>;
+};
+
+/** Values of the keys that are ready, i.e. that have emitted. */
+export interface PartialValues<T> {
+  values: Partial<T>;
+  ready: ReadonlySet<keyof T>;
+}
+
+/**
+ * With 'latest' (default), emits each time a key emits once every key has a
+ * value, like combineLatest(). With 'gate', emits only the first of them and
+ * completes, e.g. to pass to waitUntil(). With 'partial', emits each time a
+ * key emits, with the keys that are ready.
+ */
+export type CombineLatestObjectMode = 'latest'|'gate'|'partial';
+
+/**
+ * With 'all' (default), emits the last values once every key completes, like
+ * forkJoin(), or nothing if a key completes without a value. With 'partial',
+ * emits the last values of the keys that are ready instead.
+ */
+export type ForkJoinObjectMode = 'all'|'partial';
+
+function toRecord<O extends ObservableRecord>(
+    keys: Array<keyof O>, values: unknown[]): ObservedValuesOf<O> {
+  const record = {} as ObservedValuesOf<O>;
+  keys.forEach((key, index) => {
+    record[key] = values[index] as ObservedValueOf<O[keyof O]>;
+  });
+  return record;
+}
+
+/**
+ * Merges the sources into the values of the keys that are ready, on each
+ * value, or once with the last values.
+ */
+function accumulate<O extends ObservableRecord>(
+    sources: O, keys: Array<keyof O>, last: boolean):
+    Observable<PartialValues<ObservedValuesOf<O>>> {
+  type T = ObservedValuesOf<O>;
+  const seed: PartialValues<T> = {values: {}, ready: new Set()};
+  const accumulator = (
+      {values, ready}: PartialValues<T>,
+      [key, value]: [keyof O, T[keyof O]]): PartialValues<T> => ({
+    values: {...values, [key]: value},
+    ready: new Set([...ready, key]),
+  });
+  const entries$ = merge(...keys.map(key => {
+    const source$ = last ? sources[key].pipe(takeLast(1)) : sources[key];
+    return source$.pipe(map(value => [key, value] as [keyof O, T[keyof O]]));
+  }));
+  return last ? entries$.pipe(reduce(accumulator, seed)) :
+                entries$.pipe(scan(accumulator, seed));
+}
+
+/**
+ * Like combineLatest(), but takes observables by key and emits their values
+ * under the same keys, e.g. combineLatestObject({user: user$, config:
+ * config$}) emits {user, config}.
+ */
+export function combineLatestObject<O extends ObservableRecord>(
+    sources: O, options?: {mode?: 'latest'|'gate'}):
+    Observable<ObservedValuesOf<O>>;
+export function combineLatestObject<O extends ObservableRecord>(
+    sources: O, options: {mode: 'partial'}):
+    Observable<PartialValues<ObservedValuesOf<O>>>;
+export function combineLatestObject<O extends ObservableRecord>(
+    sources: O, {mode = 'latest'}: {mode?: CombineLatestObjectMode} = {}):
+    Observable<ObservedValuesOf<O>|PartialValues<ObservedValuesOf<O>>> {
+  const keys = Object.keys(sources) as Array<keyof O>;
+  if (mode === 'partial') {
+    return accumulate(sources, keys, false);
+  }
+  const values$ = combineLatest(keys.map(key => sources[key]))
+                      .pipe(map(values => toRecord<O>(keys, values)));
+  return mode === 'gate' ? values$.pipe(take(1)) : values$;
+}
+
+/**
+ * Like forkJoin(), but takes observables by key and emits their last values
+ * under the same keys.
+ */
+export function forkJoinObject<O extends ObservableRecord>(
+    sources: O, options?: {mode?: 'all'}): Observable<ObservedValuesOf<O>>;
+export function forkJoinObject<O extends ObservableRecord>(
+    sources: O, options: {mode: 'partial'}):
+    Observable<PartialValues<ObservedValuesOf<O>>>;
+export function forkJoinObject<O extends ObservableRecord>(
+    sources: O, {mode = 'all'}: {mode?: ForkJoinObjectMode} = {}):
+    Observable<ObservedValuesOf<O>|PartialValues<ObservedValuesOf<O>>> {
+  const keys = Object.keys(sources) as Array<keyof O>;
+  if (mode === 'partial') {
+    return accumulate(sources, keys, true);
+  }
+  return forkJoin(keys.map(key => sources[key]))
+      .pipe(map(values => toRecord<O>(keys, values)));
+}
@@ -0,0 +1,44 @@
+import {cold, getTestScheduler, time} from 'jasmine-marbles';
+import {debounceTime} from 'rxjs/operators';
+import {debounceAdvanced} from './debounce_advanced';
+
+
+describe('Custom operator debounceAdvanced()', () => {
+  it('should be the same as debounceTime() by default', () => {
+    const o = cold('abc---def-----ghi|   ');
+    const e = cold('----c-----f------(i|)');
+    const duration = time('--|');
+    getTestScheduler().expectObservable(o.pipe(debounceTime(duration, getTestScheduler()))).toBe(e.marbles);
+    getTestScheduler().expectObservable(o.pipe(debounceAdvanced(duration, {scheduler: getTestScheduler()}))).toBe(e.marbles);
+  });
+
+  it('should emit the first value of a burst with leading', () => {
+    const o = cold('abc---def-----ghi|');
+    const e = cold('a-----d-------g--|');
+    const operators = debounceAdvanced(time('--|'), {leading: true, trailing: false, scheduler: getTestScheduler()});
+    expect(o.pipe(operators)).toBeObservable(e);
+  });
+
+  it('should emit both the first and the last value of a burst with leading and trailing', () => {
+    const o = cold('abc---d-------ghi|   ');
+    const e = cold('a---c-d-------g--(i|)');
+    const operators = debounceAdvanced(time('--|'), {leading: true, trailing: true, scheduler: getTestScheduler()});
+    expect(o.pipe(operators)).toBeObservable(e);
+  });
+
+  it('should emit at least every maxWait during continuous input', () => {
+    const o = cold('abcdefghij---|');
+    const e = cold('---d--g--j---|');
+    const operators = debounceAdvanced(time('--|'), {maxWait: time('---|'), scheduler: getTestScheduler()});
+    expect(o.pipe(operators)).toBeObservable(e);
+  });
+
+  it('should drop the pending value on complete with onComplete=drop', () => {
+    const o = cold('abc---def-----ghi|');
+    const flush = '----c-----f------(i|)';
+    const drop = '----c-----f------|';
+    const duration = time('--|');
+    getTestScheduler().expectObservable(o.pipe(debounceAdvanced(duration, {onComplete: 'flush', scheduler: getTestScheduler()}))).toBe(flush);
+    getTestScheduler().expectObservable(o.pipe(debounceAdvanced(duration, {onComplete: 'drop', scheduler: getTestScheduler()}))).toBe(drop);
+  });
+});
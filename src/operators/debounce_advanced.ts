@@ -0,0 +1,111 @@
+import {
+  asyncScheduler,
+  MonoTypeOperatorFunction,
+  Observable,
+  SchedulerLike,
+  Subscription,
+} from 'rxjs';
+
+
+/** Options for debounceAdvanced(). */
+export interface DebounceAdvancedOptions {
+  /** Emits the first value of a burst right away. Default: false. */
+  leading?: boolean;
+  /** Emits the last value of a burst after dueTime of silence. Default: true. */
+  trailing?: boolean;
+  /**
+   * Maximum time a value can wait during continuous input. When it passes, the
+   * pending value is emitted even though the burst is not over.
+   */
+  maxWait?: number;
+  /**
+   * What to do with the pending trailing value when the source completes.
+   * With 'flush' (default), like debounceTime(), it is emitted right away.
+   * With 'drop', it is discarded.
+   */
+  onComplete?: 'flush'|'drop';
+  /** Scheduler for the timers. Default: asyncScheduler. */
+  scheduler?: SchedulerLike;
+}
+
+/**
+ * Lodash-style debounce. With the default options, it is the same as
+ * debounceTime(dueTime).
+ * @see https://lodash.com/docs/#debounce
+ */
+export function debounceAdvanced<T>(dueTime: number, {
+  leading = false,
+  trailing = true,
+  maxWait,
+  onComplete = 'flush',
+  scheduler = asyncScheduler,
+}: DebounceAdvancedOptions = {}): MonoTypeOperatorFunction<T> {
+  return source => new Observable<T>(subscriber => {
+    let pending: {value: T}|undefined;
+    let debounceTimer: Subscription|undefined;
+    let maxWaitTimer: Subscription|undefined;
+    const subscription = new Subscription();
+
+    const emitPending = () => {
+      if (pending) {
+        const {value} = pending;
+        pending = undefined;
+        subscriber.next(value);
+      }
+    };
+    const stopTimers = () => {
+      for (const timer of [debounceTimer, maxWaitTimer]) {
+        if (timer) {
+          subscription.remove(timer);
+          timer.unsubscribe();
+        }
+      }
+      debounceTimer = maxWaitTimer = undefined;
+    };
+    const startDebounceTimer = () => {
+      if (debounceTimer) {
+        subscription.remove(debounceTimer);
+        debounceTimer.unsubscribe();
+      }
+      debounceTimer = scheduler.schedule(() => {
+        stopTimers();
+        if (trailing) {
+          emitPending();
+        }
+        pending = undefined;
+      }, dueTime);
+      subscription.add(debounceTimer);
+    };
+    const startMaxWaitTimer = (delay: number) => {
+      maxWaitTimer = scheduler.schedule(function maxWaitExpired() {
+        emitPending();
+        this.schedule(undefined, delay);
+      }, delay);
+      subscription.add(maxWaitTimer);
+    };
+
+    subscription.add(source.subscribe(
+        value => {
+          const idle = !debounceTimer;
+          if (idle && leading) {
+            subscriber.next(value);
+          } else {
+            pending = {value};
+          }
+          startDebounceTimer();
+          if (idle && maxWait !== undefined) {
+            startMaxWaitTimer(maxWait);
+          }
+        },
+        err => subscriber.error(err),
+        () => {
+          stopTimers();
+          if (trailing && onComplete === 'flush') {
+            emitPending();
+          }
+          subscriber.complete();
+        },
+    ));
+    return subscription;
+  });
+}
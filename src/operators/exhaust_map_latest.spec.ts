@@ -0,0 +1,42 @@
+import {cold, getTestScheduler} from 'jasmine-marbles';
+import {of} from 'rxjs';
+import {concatMap, exhaustMap, switchMap} from 'rxjs/operators';
+import {concatMapLatest, exhaustMapLatest} from './exhaust_map_latest';
+
+
+describe('Custom operator exhaustMapLatest()', () => {
+  it('should continue with the value that arrived while busy once the previous one is completed', () => {
+    const o = cold('--x-y----z|          ');
+    const x = cold('  -a---b|            ');
+    const y = cold('        -c---d|      ');  // subscribe after x done
+    const z = cold('              -e---f|');  // subscribe after y done
+    const e = cold('---a---b-c---d-e---f|');
+    const xSubs = ['--^-----!            '];
+    const ySubs = ['--------^-----!      '];
+    const zSubs = ['--------------^-----!'];
+    const operators = exhaustMapLatest((v: 'x' | 'y' | 'z') => ({x, y, z}[v]));
+    expect(o.pipe(operators)).toBeObservable(e);
+    expect(x).toHaveSubscriptions(xSubs);
+    expect(y).toHaveSubscriptions(ySubs);
+    expect(z).toHaveSubscriptions(zSubs);
+  });
+
+  it('should keep only the latest value that arrived while busy, unlike switchMap, exhaustMap and concatMap', () => {
+    const original = cold('--a-bc------|     ');
+    const switchMa = cold('---a--c-----|     ');  // a is cancelled
+    const exhaustM = cold('---a--------|     ');  // b and c are dropped
+    const concatMa = cold('---a----b----c---|');  // b and c are queued
+    const exLatest = cold('---a----c---|     ');  // b is dropped, c is queued
+    const project = (v: string) => cold('-v---|', {v});
+    getTestScheduler().expectObservable(original.pipe(switchMap(project))).toBe(switchMa.marbles);
+    getTestScheduler().expectObservable(original.pipe(exhaustMap(project))).toBe(exhaustM.marbles);
+    getTestScheduler().expectObservable(original.pipe(concatMap(project))).toBe(concatMa.marbles);
+    getTestScheduler().expectObservable(original.pipe(exhaustMapLatest(project))).toBe(exLatest.marbles);
+    getTestScheduler().expectObservable(original.pipe(concatMapLatest(project))).toBe(exLatest.marbles);
+  });
+
+  it('should run synchronous inner observables', () => {
+    const o = of(1, 2, 3).pipe(exhaustMapLatest(v => of(v * 10)));
+    expect(o).toBeObservable(cold('(abc|)', {a: 10, b: 20, c: 30}));
+  });
+});
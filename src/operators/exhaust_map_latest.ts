@@ -0,0 +1,76 @@
+import {
+  Observable,
+  ObservableInput,
+  OperatorFunction,
+  Subscription,
+} from 'rxjs';
+import {subscribeInner} from './subscribe_inner';
+
+
+/**
+ * Like exhaustMap(), but the latest value that arrives while the inner
+ * observable is busy is not dropped: it is projected once the inner observable
+ * completes. The values in between are dropped. Good for "save" or "refresh"
+ * buttons: the current work is never cancelled, and the last click is never
+ * lost.
+ * @see exhaustMap
+ * @see concatMap
+ */
+export function exhaustMapLatest<T, R>(
+    project: (value: T, index: number) => ObservableInput<R>):
+    OperatorFunction<T, R> {
+  return source => new Observable<R>(subscriber => {
+    let pending: {value: T}|undefined;
+    let active = false;
+    let index = 0;
+    let sourceCompleted = false;
+    const subscription = new Subscription();
+
+    const start = (value: T) => {
+      active = true;
+      let inner: ObservableInput<R>;
+      try {
+        inner = project(value, index++);
+      } catch (err) {
+        active = false;
+        subscriber.error(err);
+        return;
+      }
+      subscribeInner(subscription, inner, {
+        next: result => subscriber.next(result),
+        error: err => subscriber.error(err),
+        complete: () => {
+          active = false;
+          if (pending) {
+            const next = pending.value;
+            pending = undefined;
+            start(next);
+          } else if (sourceCompleted) {
+            subscriber.complete();
+          }
+        },
+      });
+    };
+
+    subscription.add(source.subscribe(
+        value => {
+          if (active) {
+            pending = {value};
+          } else {
+            start(value);
+          }
+        },
+        err => subscriber.error(err),
+        () => {
+          sourceCompleted = true;
+          if (!active) {
+            subscriber.complete();
+          }
+        },
+    ));
+    return subscription;
+  });
+}
+
+/** Same as exhaustMapLatest(). */
+export const concatMapLatest = exhaustMapLatest;
@@ -0,0 +1,75 @@
+import {cold, getTestScheduler, time} from 'jasmine-marbles';
+import {forkJoinSettled} from './fork_join_settled';
+
+
+describe('Custom creator forkJoinSettled()', () => {
+  it('should wait till all done', () => {
+    const x = cold('-a-b-c--|   ');
+    const y = cold('--d-e-|     ');
+    const z = cold('-f---g-|    ');
+    const o = forkJoinSettled([x, y, z]);
+    const e = cold('--------(A|)', {
+      A: [
+        {status: 'fulfilled', value: 'c'},
+        {status: 'fulfilled', value: 'e'},
+        {status: 'fulfilled', value: 'g'},
+      ],
+    });
+    expect(o).toBeObservable(e);
+  });
+
+  it('should emit empty for an input that does not emit, unlike forkJoin()', () => {
+    const x = cold('-a-b-c--|');
+    const y = cold('---|     ');
+    const z = cold('-f---g-| ');
+    const o = forkJoinSettled([x, y, z]);
+    const e = cold('--------(A|)', {
+      A: [
+        {status: 'fulfilled', value: 'c'},
+        {status: 'empty'},
+        {status: 'fulfilled', value: 'g'},
+      ],
+    });
+    const xSubs = ['^-------!'];
+    const ySubs = ['^--!     '];
+    const zSubs = ['^------! ']; // z is not unsubscribed early
+    expect(o).toBeObservable(e);
+    expect(x).toHaveSubscriptions(xSubs);
+    expect(y).toHaveSubscriptions(ySubs);
+    expect(z).toHaveSubscriptions(zSubs);
+  });
+
+  it('should emit rejected for an input that throws error, unlike forkJoin()', () => {
+    const error = new Error('failed');
+    const x = cold('-a-b-c--|');
+    const y = cold('--d-e#   ', undefined, error);
+    const z = cold('-f---g-| ');
+    const o = forkJoinSettled([x, y, z]);
+    const e = cold('--------(A|)', {
+      A: [
+        {status: 'fulfilled', value: 'c'},
+        {status: 'rejected', reason: error},
+        {status: 'fulfilled', value: 'g'},
+      ],
+    });
+    expect(o).toBeObservable(e);
+  });
+
+  it('should emit timeout for an input still running after the timeout', () => {
+    const x = cold('-a-b-|    ');
+    const y = cold('--d-e-----');
+    const o = forkJoinSettled(
+        {x, y}, {timeout: time('------|'), scheduler: getTestScheduler()});
+    const e = cold('------(A|)', {
+      A: {x: {status: 'fulfilled', value: 'b'}, y: {status: 'timeout'}},
+    });
+    const ySubs = ['^-----!   '];
+    expect(o).toBeObservable(e);
+    expect(y).toHaveSubscriptions(ySubs);
+  });
+
+  it('should emit no results at once without inputs, unlike forkJoin()', () => {
+    expect(forkJoinSettled([])).toBeObservable(cold('(A|)', {A: []}));
+    expect(forkJoinSettled({})).toBeObservable(cold('(A|)', {A: {}}));
+  });
+});
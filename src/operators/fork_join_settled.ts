@@ -0,0 +1,92 @@
+import {
+  asyncScheduler,
+  forkJoin,
+  Observable,
+  ObservedValueOf,
+  of,
+  race,
+  SchedulerLike,
+  timer,
+} from 'rxjs';
+import {catchError, mapTo, reduce} from 'rxjs/operators';
+import {forkJoinObject, ObservableRecord} from './combine_latest_object';
+
+
+/**
+ * How an input of forkJoinSettled() settled: with its last value, its error,
+ * without a value, or not before the timeout.
+ */
+export type SettledResult<T> = {status: 'fulfilled', value: T}|
+    {status: 'rejected', reason: unknown}|{status: 'empty'}|
+    {status: 'timeout'};
+
+/** Results of forkJoinSettled() for an array or a record of inputs. */
+export type SettledResultsOf<I> = {
+  [K in keyof I]: SettledResult<ObservedValueOf<I[K]>>;
+};
+
+/** Options for forkJoinSettled(). */
+export interface ForkJoinSettledOptions {
+  /**
+   * Maximum time for each input to complete. An input still running then is
+   * unsubscribed and settles with 'timeout'.
+   */
+  timeout?: number;
+  /** Scheduler for the timeout. Default: asyncScheduler. */
+  scheduler?: SchedulerLike;
+}
+
+/** Emits how the input settled, then completes. Never errors. */
+function settle<T>(
+    input$: Observable<T>, timeout: number|undefined,
+    scheduler: SchedulerLike): Observable<SettledResult<T>> {
+  const settled$ = input$.pipe(
+      reduce<T, SettledResult<T>>(
+          (_, value) => ({status: 'fulfilled', value}), {status: 'empty'}),
+      catchError(reason => of<SettledResult<T>>({status: 'rejected', reason})),
+  );
+  if (timeout === undefined) {
+    return settled$;
+  }
+  return race(
+      settled$,
+      timer(timeout, scheduler).pipe(mapTo<number, SettledResult<T>>({
+        status: 'timeout',
+      })));
+}
+
+/**
+ * Like forkJoin(), but always emits one result per input once all of them
+ * settle, like Promise.allSettled(): an input that errors or completes
+ * without a value does not fail or empty the others.
+ */
+export function forkJoinSettled<I extends Array<Observable<unknown>>|[]>(
+    inputs: I,
+    options?: ForkJoinSettledOptions): Observable<SettledResultsOf<I>>;
+export function forkJoinSettled<I extends ObservableRecord>(
+    inputs: I,
+    options?: ForkJoinSettledOptions): Observable<SettledResultsOf<I>>;
+export function forkJoinSettled(
+    inputs: Array<Observable<unknown>>|ObservableRecord, {
+      timeout,
+      scheduler = asyncScheduler,
+    }: ForkJoinSettledOptions = {}):
+    Observable<Array<SettledResult<unknown>>|
+               {[key: string]: SettledResult<unknown>}> {
+  // Like Promise.allSettled([]), no input settles at once, unlike forkJoin()
+  if (Array.isArray(inputs)) {
+    return inputs.length === 0 ?
+        of([]) :
+        forkJoin(inputs.map(input$ => settle(input$, timeout, scheduler)));
+  }
+  const keys = Object.keys(inputs);
+  if (keys.length === 0) {
+    return of({});
+  }
+  const settled: ObservableRecord = {};
+  for (const key of keys) {
+    settled[key] = settle(inputs[key], timeout, scheduler);
+  }
+  return forkJoinObject(settled) as
+      Observable<{[key: string]: SettledResult<unknown>}>;
+}
@@ -0,0 +1,102 @@
+import {cold, getTestScheduler, hot, time} from 'jasmine-marbles';
+import {from} from 'rxjs';
+import {switchMap, take} from 'rxjs/operators';
+import {resolvedAt, VirtualPromise} from '../testing/virtual_promise';
+import {fromAsync, takeUntilAborted, toAbortSignal} from './from_async';
+
+
+/** A fetch-like API that resolves at the marbles unless it is aborted. */
+class FakeApi {
+  /** Whether each request was aborted, by call order. */
+  readonly aborted: boolean[] = [];
+
+  request(marbles: string, signal: AbortSignal): VirtualPromise<string> {
+    const index = this.aborted.push(false) - 1;
+    return new VirtualPromise<string>((resolve, reject) => {
+      resolvedAt(marbles).then(resolve);
+      signal.addEventListener('abort', () => {
+        this.aborted[index] = true;
+        reject(new Error('aborted'));
+      });
+    });
+  }
+}
+
+describe('Custom creator fromAsync()', () => {
+  let api: FakeApi;
+
+  beforeEach(() => {
+    api = new FakeApi();
+  });
+
+  it('should emit what the promise resolves', () => {
+    const o = fromAsync(signal => api.request('--v', signal));
+    expect(o).toBeObservable(cold('--(v|)'));
+    expect(api.aborted).toEqual([false]);
+  });
+
+  it('should only call the factory when subscribed', () => {
+    const o = fromAsync(signal => api.request('--v', signal));
+    expect(api.aborted).toEqual([]);
+    getTestScheduler().expectObservable(o, '--^').toBe('----(v|)');
+    getTestScheduler().flush();
+    expect(api.aborted).toEqual([false]);
+  });
+
+  it('should abort the signal on unsubscribe', () => {
+    const o = fromAsync(signal => api.request('---v', signal));
+    getTestScheduler().expectObservable(o, '^-!').toBe('');
+    getTestScheduler().flush();
+    expect(api.aborted).toEqual([true]);
+  });
+
+  it('should abort the previous request in switchMap()', () => {
+    const x = cold('-a-b|');
+    const o = x.pipe(
+        switchMap(v => fromAsync(signal => api.request(`---${v}`, signal))));
+    expect(o).toBeObservable(cold('------(b|)'));
+    expect(api.aborted).toEqual([true, false]);
+  });
+
+  it('should not abort when the subscriber unsubscribes on the value', () => {
+    const o = fromAsync(signal => api.request('--v', signal)).pipe(take(1));
+    expect(o).toBeObservable(cold('--(v|)'));
+    expect(api.aborted).toEqual([false]);
+  });
+});
+
+describe('Custom operator takeUntilAborted()', () => {
+  it('should complete when the signal aborts', () => {
+    const controller = new AbortController();
+    getTestScheduler().schedule(() => controller.abort(), time('--|'));
+    const x = cold('-a-b-c|');
+    expect(x.pipe(takeUntilAborted(controller.signal)))
+        .toBeObservable(cold('-a|'));
+  });
+
+  it('should complete at once if the signal is already aborted', () => {
+    const controller = new AbortController();
+    controller.abort();
+    const x = cold('-a-b-c|');
+    expect(x.pipe(takeUntilAborted(controller.signal)))
+        .toBeObservable(cold('|'));
+    expect(x).toHaveSubscriptions([]);
+  });
+});
+
+describe('toAbortSignal()', () => {
+  it('should abort when the notifier emits', () => {
+    const signal = toAbortSignal(hot('--x'));
+    expect(signal.aborted).toBe(false);
+    getTestScheduler().flush();
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('should pass an abort signal into a fetch-like API', () => {
+    const api = new FakeApi();
+    const destroy$ = hot('--x');
+    const o = from(api.request('----v', toAbortSignal(destroy$)));
+    expect(o).toBeObservable(cold('--#', undefined, new Error('aborted')));
+    expect(api.aborted).toEqual([true]);
+  });
+});
@@ -0,0 +1,71 @@
+import {defer, MonoTypeOperatorFunction, Observable} from 'rxjs';
+import {take, takeUntil} from 'rxjs/operators';
+
+
+/** Emits once when the signal aborts, or at subscription if it did already. */
+function fromAbort(signal: AbortSignal): Observable<void> {
+  return new Observable<void>(subscriber => {
+    const onAbort = () => subscriber.next();
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort);
+    return () => signal.removeEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Like defer(() => from(promise)), but the factory receives an AbortSignal
+ * that aborts when the subscriber unsubscribes before the promise settles,
+ * e.g. fromAsync(signal => fetch(url, {signal})) cancels the request in a
+ * switchMap().
+ */
+export function fromAsync<T>(
+    factory: (signal: AbortSignal) => PromiseLike<T>): Observable<T> {
+  return new Observable<T>(subscriber => {
+    const controller = new AbortController();
+    let settled = false;
+    const subscription = defer(() => factory(controller.signal)).subscribe(
+        value => {
+          // The value settles the promise, even if take(1) unsubscribes
+          settled = true;
+          subscriber.next(value);
+        },
+        err => {
+          settled = true;
+          subscriber.error(err);
+        },
+        () => {
+          settled = true;
+          subscriber.complete();
+        },
+    );
+    return () => {
+      subscription.unsubscribe();
+      if (!settled) {
+        controller.abort();
+      }
+    };
+  });
+}
+
+/**
+ * Completes when the signal aborts, like takeUntil(). Completes at
+ * subscription if the signal is already aborted.
+ */
+export function takeUntilAborted<T>(signal: AbortSignal):
+    MonoTypeOperatorFunction<T> {
+  return takeUntil(fromAbort(signal));
+}
+
+/**
+ * Returns a signal that aborts when the notifier first emits, e.g. to pass
+ * takeUntil() semantics to a fetch-like API. The notifier is subscribed
+ * until it emits or completes.
+ */
+export function toAbortSignal(notifier$: Observable<unknown>): AbortSignal {
+  const controller = new AbortController();
+  notifier$.pipe(take(1)).subscribe(() => controller.abort());
+  return controller.signal;
+}
@@ -0,0 +1,101 @@
+import {cold, getTestScheduler} from 'jasmine-marbles';
+import {of, ReplaySubject} from 'rxjs';
+import {concatMap, mergeMap} from 'rxjs/operators';
+import {MergeMapPriorityStats, mergeMapPriority} from './merge_map_priority';
+
+
+describe('Custom operator mergeMapPriority()', () => {
+  it('should be like concatMap() with concurrency=1', () => {
+    const o = cold('--x-y----z|          ');
+    const x = cold('  -a---b|            ');
+    const y = cold('        -c---d|      ');  // subscribe after x done
+    const z = cold('              -e---f|');  // subscribe after y done
+    const e = cold('---a---b-c---d-e---f|');
+    const xSubs = ['--^-----!            ',
+      /*       */  '--^-----!            '];
+    const ySubs = ['--------^-----!      ',
+      /*       */  '--------^-----!      '];
+    const zSubs = ['--------------^-----!',
+      /*       */  '--------------^-----!'];
+    const project = (v: 'x' | 'y' | 'z') => ({x, y, z}[v]);
+    getTestScheduler().expectObservable(o.pipe(concatMap(project))).toBe(e.marbles);
+    getTestScheduler().expectObservable(o.pipe(mergeMapPriority(project, {concurrency: 1}))).toBe(e.marbles);
+    getTestScheduler().expectSubscriptions(x.getSubscriptions()).toBe(xSubs);
+    getTestScheduler().expectSubscriptions(y.getSubscriptions()).toBe(ySubs);
+    getTestScheduler().expectSubscriptions(z.getSubscriptions()).toBe(zSubs);
+  });
+
+  it('should be like mergeMap() with concurrency=Infinity', () => {
+    const o = cold('x-y----z|     ');
+    const x = cold('-a---b|       ');
+    const y = cold('  -c---d|     ');
+    const z = cold('       -e---f|');
+    const e = cold('-a-c-b-de---f|');
+    const xSubs = ['^-----!       ',
+      /*       */  '^-----!       '];
+    const ySubs = ['--^-----!     ',
+      /*       */  '--^-----!     '];
+    const zSubs = ['-------^-----!',
+      /*       */  '-------^-----!'];
+    const project = (v: 'x' | 'y' | 'z') => ({x, y, z}[v]);
+    getTestScheduler().expectObservable(o.pipe(mergeMap(project))).toBe(e.marbles);
+    getTestScheduler().expectObservable(o.pipe(mergeMapPriority(project))).toBe(e.marbles);
+    getTestScheduler().expectSubscriptions(x.getSubscriptions()).toBe(xSubs);
+    getTestScheduler().expectSubscriptions(y.getSubscriptions()).toBe(ySubs);
+    getTestScheduler().expectSubscriptions(z.getSubscriptions()).toBe(zSubs);
+  });
+
+  it('should run synchronous inner observables with concurrency=1 and Infinity', () => {
+    const o = cold('-x-(yz)|', {x: 1, y: 2, z: 3});
+    const e = cold('-a-(bc)|', {a: 10, b: 20, c: 30});
+    const project = (v: number) => of(v * 10);
+    getTestScheduler().expectObservable(o.pipe(mergeMapPriority(project, {concurrency: 1}))).toBe(e.marbles, e.values);
+    getTestScheduler().expectObservable(o.pipe(mergeMapPriority(project))).toBe(e.marbles, e.values);
+  });
+
+  it('should start queued values by priority', () => {
+    const o = cold('ab-c-d---|   ');
+    const e = cold('--a--c--d--b|');
+    const priorities: {[v: string]: number} = {a: 0, b: 1, c: 2, d: 3};
+    const operators = mergeMapPriority((v: string) => cold('--v|', {v}), {
+      concurrency: 1,
+      priority: v => priorities[v],
+    });
+    expect(o.pipe(operators)).toBeObservable(e);
+  });
+
+  it('should start queued values with the same priority in arrival order', () => {
+    const o = cold('abcd|   ');
+    const e = cold('--ab-cd|');
+    const operators = mergeMapPriority((v: string) => cold('--v|', {v}), {concurrency: 2});
+    expect(o.pipe(operators)).toBeObservable(e);
+  });
+
+  it('should remove queued values matching cancel$', () => {
+    const o = cold('abc|      ');
+    const c = cold('--p       ', {p: (v: string) => v === 'b'});
+    const e = cold('--a--c|   ');
+    const operators = mergeMapPriority((v: string) => cold('--v|', {v}), {
+      concurrency: 1,
+      cancel$: c,
+    });
+    expect(o.pipe(operators)).toBeObservable(e);
+  });
+
+  it('should report stats', () => {
+    const statsRecorder = new ReplaySubject<MergeMapPriorityStats>(undefined, undefined, getTestScheduler());
+    const o = cold('ab|      ');
+    const e = cold('--a--b|  ');
+    const operators = mergeMapPriority((v: string) => cold('--v|', {v}), {
+      concurrency: 1,
+      stats: statsRecorder,
+    });
+    getTestScheduler().expectObservable(o.pipe(operators)).toBe(e.marbles);
+    getTestScheduler().expectObservable(statsRecorder).toBe('AB-C--(D|)', {
+      A: {queued: 0, active: 1},
+      B: {queued: 1, active: 1},
+      C: {queued: 0, active: 1},
+      D: {queued: 0, active: 0},
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  Observable,
+  ObservableInput,
+  OperatorFunction,
+  PartialObserver,
+  Subscription,
+} from 'rxjs';
+import {subscribeInner} from './subscribe_inner';
+
+
+/** Numbers of inner observables reported by mergeMapPriority(). */
+export interface MergeMapPriorityStats {
+  /** Values waiting for a free slot. */
+  queued: number;
+  /** Inner observables currently subscribed. */
+  active: number;
+}
+
+/** Options for mergeMapPriority(). */
+export interface MergeMapPriorityOptions<T> {
+  /** Maximum number of inner observables subscribed at once. Default: Infinity. */
+  concurrency?: number;
+  /**
+   * Priority of a value waiting for a free slot; higher starts first. Values
+   * with the same priority start in arrival order. Default: 0.
+   */
+  priority?: (value: T, index: number) => number;
+  /** Each predicate emitted removes the matching values still waiting. */
+  cancel$?: Observable<(value: T) => boolean>;
+  /** Receives the stats each time they change. */
+  stats?: PartialObserver<MergeMapPriorityStats>;
+}
+
+interface QueuedValue<T> {
+  value: T;
+  index: number;
+  priority: number;
+}
+
+/**
+ * Like mergeMap() with a concurrency limit, but when all slots are busy, the
+ * pending values are started by priority instead of arrival order. With
+ * concurrency 1, it is concatMap() with priorities.
+ * @see mergeMap
+ * @see concatMap
+ */
+export function mergeMapPriority<T, R>(
+    project: (value: T, index: number) => ObservableInput<R>, {
+      concurrency = Infinity,
+      priority = () => 0,
+      cancel$,
+      stats,
+    }: MergeMapPriorityOptions<T> = {}): OperatorFunction<T, R> {
+  return source => new Observable<R>(subscriber => {
+    const queue: Array<QueuedValue<T>> = [];
+    let active = 0;
+    let index = 0;
+    let sourceCompleted = false;
+    let lastStats = {queued: 0, active: 0};
+    const subscription = new Subscription();
+
+    const reportStats = () => {
+      if (queue.length === lastStats.queued && active === lastStats.active) {
+        return;
+      }
+      lastStats = {queued: queue.length, active};
+      if (stats && stats.next) {
+        stats.next(lastStats);
+      }
+    };
+    const completeIfDone = () => {
+      if (sourceCompleted && active === 0 && queue.length === 0) {
+        if (stats && stats.complete) {
+          stats.complete();
+        }
+        subscriber.complete();
+      }
+    };
+    const start = (queued: QueuedValue<T>) => {
+      active++;
+      let inner: ObservableInput<R>;
+      try {
+        inner = project(queued.value, queued.index);
+      } catch (err) {
+        active--;
+        subscriber.error(err);
+        return;
+      }
+      subscribeInner(subscription, inner, {
+        next: result => subscriber.next(result),
+        error: err => subscriber.error(err),
+        complete: () => {
+          active--;
+          const next = queue.shift();
+          if (next) {
+            start(next);
+          }
+          reportStats();
+          completeIfDone();
+        },
+      });
+    };
+    const enqueue = (queued: QueuedValue<T>) => {
+      // Stable: after the values with the same or higher priority.
+      const position = queue.findIndex(q => q.priority < queued.priority);
+      queue.splice(position < 0 ? queue.length : position, 0, queued);
+    };
+
+    if (cancel$) {
+      subscription.add(cancel$.subscribe(
+          predicate => {
+            const kept = queue.filter(q => !predicate(q.value));
+            if (kept.length !== queue.length) {
+              queue.splice(0, queue.length, ...kept);
+              reportStats();
+              completeIfDone();
+            }
+          },
+          err => subscriber.error(err),
+      ));
+    }
+
+    subscription.add(source.subscribe(
+        value => {
+          const queued = {value, index, priority: priority(value, index)};
+          index++;
+          if (active < concurrency) {
+            start(queued);
+          } else {
+            enqueue(queued);
+          }
+          reportStats();
+        },
+        err => subscriber.error(err),
+        () => {
+          sourceCompleted = true;
+          completeIfDone();
+        },
+    ));
+    return subscription;
+  });
+}
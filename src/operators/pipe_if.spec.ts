@@ -1,6 +1,6 @@
-import {cold} from 'jasmine-marbles';
-import {pipe} from 'rxjs';
-import {filter, map} from 'rxjs/operators';
+import {cold, getTestScheduler, time} from 'jasmine-marbles';
+import {Observable, pipe} from 'rxjs';
+import {delay, filter, map} from 'rxjs/operators';
 import {pipeIf} from './pipe_if';
 
 
@@ -27,4 +27,130 @@ describe('Custom operator pipeIf()', () => {
       }
     });
   }
+
+  for (const externalCondition of [false, true]) {
+    it(`should leave the stream unchanged without falsePipe % externalCondition=${externalCondition}`, () => {
+      let condition = false;
+      const x = cold('x-y-z|');
+      const o = x.pipe(pipeIf(() => condition, map((v: string) => v.toUpperCase())));
+      condition = externalCondition;
+      if (externalCondition) {
+        expect(o).toBeObservable(cold('X-Y-Z|'));
+      } else {
+        expect(o).toBeObservable(cold('x-y-z|'));
+      }
+    });
+  }
+
+  it('should support pipes with different output types', () => {
+    const x = cold('x-y-z|');
+    const o: Observable<string|number> = x.pipe(
+        pipeIf(() => false,
+            map((v: string) => v.toUpperCase()),
+            map((v: string) => v.length),
+        ),
+    );
+    expect(o).toBeObservable(cold('a-a-a|', {a: 1}));
+  });
+});
+
+describe('Custom operator pipeIf() with condition$', () => {
+  const values = {t: true, f: false};
+
+  it('should switch pipe each time the condition flips', () => {
+    const x = cold('a-b-c-d-e|');
+    const c = cold('t--f-t   ', values);
+    const o = x.pipe(
+        pipeIf(c,
+            map((v: string) => v.toUpperCase()),
+            map((v: string) => v),
+        ),
+    );
+    expect(o).toBeObservable(cold('A-B-c-D-E|'));
+    expect(x).toHaveSubscriptions('^--------!'); // subscribed only once
+  });
+
+  it('should ignore condition$ re-emitting the same value', () => {
+    const x = cold('a-b-c-d-e|');
+    const c = cold('t-t-t-t  ', values);
+    const o = x.pipe(
+        pipeIf(c,
+            map((v: string) => v.toUpperCase()),
+            map((v: string) => v),
+        ),
+    );
+    expect(o).toBeObservable(cold('A-B-C-D-E|'));
+    expect(x).toHaveSubscriptions('^--------!');
+  });
+
+  it('should cancel in-flight work of the previous pipe by default', () => {
+    const x = cold('a-b--c-d|');
+    const c = cold('t--f     ', values);
+    const o = x.pipe(
+        pipeIf(c,
+            pipe(
+                delay(time('--|'), getTestScheduler()),
+                map((v: string) => v.toUpperCase()),
+            ),
+            map((v: string) => v),
+        ),
+    );
+    expect(o).toBeObservable(cold('--A--c-d|')); // B is cancelled at frame 3
+  });
+
+  it('should drain in-flight work of the previous pipe with inFlight=drain', () => {
+    const x = cold('a-b--c-d|');
+    const c = cold('t--f     ', values);
+    const o = x.pipe(
+        pipeIf(c,
+            pipe(
+                delay(time('--|'), getTestScheduler()),
+                map((v: string) => v.toUpperCase()),
+            ),
+            map((v: string) => v),
+            {inFlight: 'drain'},
+        ),
+    );
+    expect(o).toBeObservable(cold('--A-Bc-d|'));
+    expect(x).toHaveSubscriptions('^-------!');
+  });
+
+  it('should use the latest condition when it flips before the first emission', () => {
+    const x = cold('---a-b|');
+    const c = cold('tft    ', values);
+    const o = x.pipe(
+        pipeIf(c,
+            map((v: string) => v.toUpperCase()),
+            map((v: string) => v),
+        ),
+    );
+    expect(o).toBeObservable(cold('---A-B|'));
+    expect(x).toHaveSubscriptions('^-----!');
+  });
+
+  it('should not subscribe the source until condition$ emits', () => {
+    const x = cold('a-b-c|  ');
+    const c = cold('--f     ', values);
+    const o = x.pipe(
+        pipeIf(c,
+            map((v: string) => v.toUpperCase()),
+            map((v: string) => v),
+        ),
+    );
+    expect(o).toBeObservable(cold('--a-b-c|'));
+    expect(x).toHaveSubscriptions('--^----!');
+  });
+
+  it('should ignore flips after the source completes', () => {
+    const x = cold('a-b|      ');
+    const c = cold('t-----f-t ', values);
+    const o = x.pipe(
+        pipeIf(c,
+            map((v: string) => v.toUpperCase()),
+            map((v: string) => v),
+        ),
+    );
+    expect(o).toBeObservable(cold('A-B|'));
+    expect(c).toHaveSubscriptions('^--!');
+  });
 });
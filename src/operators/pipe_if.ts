@@ -1,20 +1,122 @@
-import {ObservableInput, UnaryFunction} from 'rxjs/src/internal/types';
-import {defer} from 'rxjs';
+import {
+  defer,
+  identity,
+  isObservable,
+  Observable,
+  OperatorFunction,
+  Subscription,
+} from 'rxjs';
+import {
+  distinctUntilChanged,
+  endWith,
+  ignoreElements,
+  mergeMap,
+  publish,
+  share,
+  switchMap,
+  takeUntil,
+} from 'rxjs/operators';
 
 
+/** Options for pipeIf() with a reactive condition. */
+export interface PipeIfOptions {
+  /**
+   * What happens to the work in flight in the active branch when the condition
+   * flips. With 'cancel' (default), the branch is unsubscribed right away like
+   * switchMap(). With 'drain', the branch stops receiving source values but is
+   * kept until it completes, like mergeMap().
+   */
+  inFlight?: 'cancel'|'drain';
+}
+
 /**
  * Conditionally selects pipe for the stream. The condition is evaluated at
- * subscription time.
+ * subscription time. Without falsePipe, the stream is left unchanged when the
+ * condition is false.
  */
-export function pipeIf<T, R>(
+export function pipeIf<T, A>(
+    condition: () => boolean,
+    truePipe: OperatorFunction<T, A>): OperatorFunction<T, T|A>;
+export function pipeIf<T, A, B>(
     condition: () => boolean,
-    truePipe: UnaryFunction<T, R>,
-    falsePipe: UnaryFunction<T, R>) {
-  return (stream: T) => defer(() => {
+    truePipe: OperatorFunction<T, A>,
+    falsePipe: OperatorFunction<T, B>): OperatorFunction<T, A|B>;
+/**
+ * Conditionally selects pipe for the stream. The pipe is selected again each
+ * time condition$ emits a different value. The source is subscribed only once
+ * (when condition$ first emits) and shared between the branches.
+ */
+export function pipeIf<T, A>(
+    condition$: Observable<boolean>,
+    truePipe: OperatorFunction<T, A>,
+    falsePipe?: undefined,
+    options?: PipeIfOptions): OperatorFunction<T, T|A>;
+export function pipeIf<T, A, B>(
+    condition$: Observable<boolean>,
+    truePipe: OperatorFunction<T, A>,
+    falsePipe: OperatorFunction<T, B>,
+    options?: PipeIfOptions): OperatorFunction<T, A|B>;
+export function pipeIf<T, A, B>(
+    condition: (() => boolean)|Observable<boolean>,
+    truePipe: OperatorFunction<T, A>,
+    falsePipe?: OperatorFunction<T, B>,
+    options: PipeIfOptions = {}): OperatorFunction<T, T|A|B> {
+  const elsePipe: OperatorFunction<T, T|B> = falsePipe || identity;
+  if (isObservable(condition)) {
+    return pipeIfReactive<T, T|A|B>(condition, truePipe, elsePipe, options);
+  }
+  return stream => defer(() => {
     if (condition()) {
-      return truePipe(stream) as unknown as ObservableInput<unknown>;
+      return truePipe(stream);
     } else {
-      return falsePipe(stream) as unknown as ObservableInput<unknown>;
+      return elsePipe(stream);
     }
   });
 }
+
+function pipeIfReactive<T, R>(
+    condition$: Observable<boolean>,
+    truePipe: OperatorFunction<T, R>,
+    falsePipe: OperatorFunction<T, R>,
+    {inFlight = 'cancel'}: PipeIfOptions): OperatorFunction<T, R> {
+  return source => new Observable<R>(subscriber => {
+    const shared = publish<T>()(source);
+    let connection: Subscription|undefined;
+    // Stop selecting branches once the source is done; the active branch
+    // still completes by itself.
+    const done$ = shared.pipe(ignoreElements(), endWith(true));
+    const flips$ = condition$.pipe(
+        distinctUntilChanged(),
+        takeUntil(done$),
+        share(),
+    );
+
+    const selectBranch = (condition: boolean) => {
+      const input = inFlight === 'drain' ?
+          shared.pipe(takeUntil(flips$)) :
+          shared;
+      const output = condition ? truePipe(input) : falsePipe(input);
+      if (connection) {
+        return output;
+      }
+      // Connect only after the first branch subscribes to not lose values.
+      return new Observable<R>(observer => {
+        const branchSubscription = output.subscribe(observer);
+        connection = shared.connect();
+        return branchSubscription;
+      });
+    };
+
+    const subscription = flips$
+        .pipe(inFlight === 'drain' ?
+                  mergeMap(selectBranch) :
+                  switchMap(selectBranch))
+        .subscribe(subscriber);
+    return () => {
+      subscription.unsubscribe();
+      if (connection) {
+        connection.unsubscribe();
+      }
+    };
+  });
+}
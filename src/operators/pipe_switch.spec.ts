@@ -0,0 +1,85 @@
+import {cold} from 'jasmine-marbles';
+import {pipe} from 'rxjs';
+import {filter, map, scan} from 'rxjs/operators';
+import {pipeCase, pipeSwitch} from './pipe_switch';
+
+
+describe('Custom operator pipeSwitch()', () => {
+  type Env = 'dev'|'prod'|'test';
+
+  for (const externalEnv of ['dev', 'prod', 'test'] as Env[]) {
+    it(`should select pipe by key % externalEnv=${externalEnv}`, () => {
+      let env: Env = 'dev';
+      const x = cold('X-y-z|');
+      const o = x.pipe(
+          pipeSwitch(() => env, {
+            dev: map((v: string) => v.toLowerCase()),
+            prod: pipe(
+                filter((v: string) => v !== 'y'),
+                map(v => v.toUpperCase()),
+            ),
+            test: map((v: string) => `${v}!`),
+          }),
+      );
+      // Change key before subscription
+      env = externalEnv;
+      const expected = {
+        dev: cold('x-y-z|'),
+        prod: cold('X---Z|'),
+        test: cold('X-y-z|', {X: 'X!', y: 'y!', z: 'z!'}),
+      };
+      expect(o).toBeObservable(expected[externalEnv]);
+    });
+  }
+
+  it('should fall back to the default pipe for keys without pipe', () => {
+    let bucket = 'b';
+    const x = cold('x-y-z|');
+    const o = x.pipe(
+        pipeSwitch(() => bucket, {
+          a: map((v: string) => v.toUpperCase()),
+        }, map((v: string) => `${v}${v}`)),
+    );
+    bucket = 'c';
+    expect(o).toBeObservable(cold('X-Y-Z|', {X: 'xx', Y: 'yy', Z: 'zz'}));
+  });
+
+  it('should error if there is no pipe and no default pipe for the key', () => {
+    const x = cold('x-y-z|');
+    const o = x.pipe(pipeSwitch((): string => 'a', {}));
+    expect(o).toBeObservable(cold('#', undefined, new Error('No pipe for key: a')));
+    expect(x).toHaveSubscriptions([]);
+  });
+});
+
+describe('Custom operator pipeCase()', () => {
+  it('should route each value through the pipe for its key and merge the results', () => {
+    const x = cold('a-1-b-2-c|');
+    const o = x.pipe(
+        pipeCase((v: string) => isNaN(Number(v)) ? 'letter' : 'digit', {
+          letter: map((v: string) => v.toUpperCase()),
+          digit: map((v: string) => `${Number(v) * 10}`),
+        }),
+    );
+    expect(o).toBeObservable(cold('A-1-B-2-C|', {A: 'A', B: 'B', C: 'C', 1: '10', 2: '20'}));
+  });
+
+  it('should keep state per key', () => {
+    const x = cold('a-b-a-a-b|');
+    const o = x.pipe(
+        pipeCase((v: string) => v, {}, pipe(
+            scan((count: number) => count + 1, 0),
+            map(count => `${count}`),
+        )),
+    );
+    expect(o).toBeObservable(cold('1-1-2-3-2|'));
+  });
+
+  it('should error if there is no pipe and no default pipe for the key', () => {
+    const x = cold('a-b-c|');
+    const o = x.pipe(
+        pipeCase((v: string): string => v, {a: map((v: string) => v)}),
+    );
+    expect(o).toBeObservable(cold('a-#', undefined, new Error('No pipe for key: b')));
+  });
+});
@@ -0,0 +1,68 @@
+import {defer, Observable, OperatorFunction, throwError} from 'rxjs';
+import {groupBy, mergeMap} from 'rxjs/operators';
+
+
+/** Pipes keyed by every member of the union K. */
+export type PipeCases<K extends PropertyKey, T, R> = {
+  [P in K]: OperatorFunction<T, R>;
+};
+
+/**
+ * Selects one of N pipes for the stream by key. The key is evaluated at
+ * subscription time. Without defaultPipe, every key of K must have a pipe.
+ * @see pipeIf
+ */
+export function pipeSwitch<K extends PropertyKey, T, R>(
+    selector: () => K,
+    cases: PipeCases<K, T, R>): OperatorFunction<T, R>;
+export function pipeSwitch<K extends PropertyKey, T, R>(
+    selector: () => K,
+    cases: Partial<PipeCases<K, T, R>>,
+    defaultPipe: OperatorFunction<T, R>): OperatorFunction<T, R>;
+export function pipeSwitch<K extends PropertyKey, T, R>(
+    selector: () => K,
+    cases: Partial<PipeCases<K, T, R>>,
+    defaultPipe?: OperatorFunction<T, R>): OperatorFunction<T, R> {
+  return stream => defer(() => {
+    const key = selector();
+    return selectPipe(key, cases, defaultPipe)(stream);
+  });
+}
+
+/**
+ * Routes each value through the pipe for its key and merges the results into
+ * one stream. Each pipe receives a stream of all values for its key, so
+ * stateful operators such as scan() or distinct() work per key.
+ * @see pipeSwitch
+ */
+export function pipeCase<K extends PropertyKey, T, R>(
+    keySelector: (value: T) => K,
+    cases: PipeCases<K, T, R>): OperatorFunction<T, R>;
+export function pipeCase<K extends PropertyKey, T, R>(
+    keySelector: (value: T) => K,
+    cases: Partial<PipeCases<K, T, R>>,
+    defaultPipe: OperatorFunction<T, R>): OperatorFunction<T, R>;
+export function pipeCase<K extends PropertyKey, T, R>(
+    keySelector: (value: T) => K,
+    cases: Partial<PipeCases<K, T, R>>,
+    defaultPipe?: OperatorFunction<T, R>): OperatorFunction<T, R> {
+  return stream => stream.pipe(
+      groupBy(keySelector),
+      mergeMap(group => selectPipe(group.key, cases, defaultPipe)(group)),
+  );
+}
+
+function selectPipe<K extends PropertyKey, T, R>(
+    key: K,
+    cases: Partial<PipeCases<K, T, R>>,
+    defaultPipe?: OperatorFunction<T, R>): OperatorFunction<T, R> {
+  const casePipe: OperatorFunction<T, R>|undefined = cases[key];
+  if (casePipe && Object.prototype.hasOwnProperty.call(cases, key)) {
+    return casePipe;
+  }
+  if (defaultPipe) {
+    return defaultPipe;
+  }
+  return (): Observable<R> =>
+      throwError(new Error(`No pipe for key: ${String(key)}`));
+}
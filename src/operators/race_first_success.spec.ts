@@ -0,0 +1,108 @@
+import {cold, getTestScheduler, time} from 'jasmine-marbles';
+import {Observable} from 'rxjs';
+import {hedge, raceFirstSuccess} from './race_first_success';
+
+
+describe('Custom creator raceFirstSuccess()', () => {
+  it('should select flow that emits first', () => {
+    const x = cold('--a-b-c--|');
+    const y = cold('--d-e#    ');
+    const z = cold('-f---g-|  ');
+    const o = raceFirstSuccess(x, y, z);
+    const e = cold('-f---g-|  ');
+    const xSubs = ['^!        ']; // x is unsubscribed early
+    const ySubs = ['^!        ']; // y is unsubscribed early
+    const zSubs = ['^------!  '];
+    expect(o).toBeObservable(e);
+    expect(x).toHaveSubscriptions(xSubs);
+    expect(y).toHaveSubscriptions(ySubs);
+    expect(z).toHaveSubscriptions(zSubs);
+  });
+
+  it('should ignore flow with first event if that event is error', () => {
+    const x = cold('--a-b-c--|');
+    const y = cold('---d-e#   ');
+    const z = cold('-#        ');
+    const o = raceFirstSuccess(x, y, z);
+    const e = cold('--a-b-c--|');
+    const xSubs = ['^--------!'];
+    const ySubs = ['^-!       ']; // y is unsubscribed when x wins
+    const zSubs = ['^!        '];
+    expect(o).toBeObservable(e);
+    expect(x).toHaveSubscriptions(xSubs);
+    expect(y).toHaveSubscriptions(ySubs);
+    expect(z).toHaveSubscriptions(zSubs);
+  });
+
+  it('should ignore flow with first event even if that event is complete', () => {
+    const x = cold('--a-b-c--|');
+    const y = cold('--d-e#    ');
+    const z = cold('-|        ');
+    const o = raceFirstSuccess(x, y, z);
+    // x and y emit in the same frame, x is subscribed first
+    const e = cold('--a-b-c--|');
+    expect(o).toBeObservable(e);
+    expect(y).toHaveSubscriptions('^-!');
+  });
+
+  it('should follow the winner to its error', () => {
+    const x = cold('---a-#', undefined, 'x failed');
+    const y = cold('-----b|');
+    expect(raceFirstSuccess(x, y))
+        .toBeObservable(cold('---a-#', undefined, 'x failed'));
+  });
+
+  it('should error with all the failures if every flow fails', () => {
+    const x = cold('--#', undefined, 'x failed');
+    const y = cold('---|');
+    const o = raceFirstSuccess(x, y);
+    const e = cold('---#', undefined, jasmine.objectContaining({
+      message: 'raceFirstSuccess failed: all 2 sources failed',
+      errors: [
+        'x failed',
+        new Error('raceFirstSuccess source 1 completed without a value'),
+      ],
+    }));
+    expect(o).toBeObservable(e);
+  });
+});
+
+describe('Custom creator hedge()', () => {
+  function attempts(...marbles: string[]) {
+    const observables = marbles.map(m => cold(m));
+    const started: number[] = [];
+    const factory = (attempt: number): Observable<string> => {
+      started.push(attempt);
+      return observables[attempt];
+    };
+    return {started, factory};
+  }
+
+  it('should take the first success among staggered attempts', () => {
+    const {started, factory} = attempts('------a|', '--b|');
+    const o = hedge(
+        factory, {delays: [time('--|')], scheduler: getTestScheduler()});
+    expect(o).toBeObservable(cold('----b|'));
+    expect(started).toEqual([0, 1]);
+  });
+
+  it('should not start a backup if the first attempt emits before its delay', () => {
+    const {started, factory} = attempts('-a|', '--b|');
+    const o = hedge(
+        factory, {delays: [time('--|')], scheduler: getTestScheduler()});
+    expect(o).toBeObservable(cold('-a|'));
+    expect(started).toEqual([0]);
+  });
+
+  it('should error if every attempt fails', () => {
+    const {factory} = attempts('-#', '-#', '-#');
+    const o = hedge(factory, {
+      delays: [time('--|'), time('----|')],
+      scheduler: getTestScheduler(),
+    });
+    const e = cold('-----#', undefined, jasmine.objectContaining({
+      errors: ['error', 'error', 'error'],
+    }));
+    expect(o).toBeObservable(e);
+  });
+});
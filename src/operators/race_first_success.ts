@@ -0,0 +1,108 @@
+import {
+  asyncScheduler,
+  defer,
+  Observable,
+  SchedulerLike,
+  Subscription,
+  timer,
+} from 'rxjs';
+import {concatMap} from 'rxjs/operators';
+
+
+/** The error of raceFirstSuccess() when every source fails. */
+export interface RaceFailure extends Error {
+  /** The error of each source, by index. */
+  errors: unknown[];
+}
+
+/** Options for hedge(). */
+export interface HedgeOptions {
+  /**
+   * When to start each backup attempt, since subscription, e.g. [100, 300]
+   * starts a second attempt after 100ms and a third one after 300ms.
+   */
+  delays: number[];
+  /** Scheduler for the delays. Default: asyncScheduler. */
+  scheduler?: SchedulerLike;
+}
+
+function raceFailure(errors: unknown[]): RaceFailure {
+  return Object.assign(
+      new Error(`raceFirstSuccess failed: all ${errors.length} sources failed`),
+      {errors});
+}
+
+function emptyError(index: number): Error {
+  return new Error(
+      `raceFirstSuccess source ${index} completed without a value`);
+}
+
+/**
+ * Like race(), but picks the first source that emits a value. Sources that
+ * error or complete without a value are discarded instead of winning. Errors
+ * with a RaceFailure if every source fails, where a source that completed
+ * empty has an error too.
+ */
+export function raceFirstSuccess<T>(...sources: Array<Observable<T>>):
+    Observable<T> {
+  return new Observable<T>(subscriber => {
+    const subscriptions: Subscription[] = [];
+    const errors: unknown[] = [];
+    let failures = 0;
+    let winner: number|undefined;
+
+    const fail = (index: number, error: unknown) => {
+      errors[index] = error;
+      if (++failures === sources.length) {
+        subscriber.error(raceFailure(errors));
+      }
+    };
+    const win = (index: number) => {
+      winner = index;
+      subscriptions.forEach((subscription, i) => {
+        if (i !== index) {
+          subscription.unsubscribe();
+        }
+      });
+    };
+
+    if (sources.length === 0) {
+      subscriber.error(raceFailure([]));
+    }
+    sources.forEach((source$, index) => {
+      // A source may win synchronously while the others are subscribed
+      if (winner !== undefined || subscriber.closed) {
+        return;
+      }
+      subscriptions[index] = source$.subscribe(
+          value => {
+            if (winner === undefined) {
+              win(index);
+            }
+            subscriber.next(value);
+          },
+          err => winner === index ? subscriber.error(err) : fail(index, err),
+          () => winner === index ? subscriber.complete() :
+                                   fail(index, emptyError(index)),
+      );
+    });
+    return () => subscriptions.forEach(
+        subscription => subscription.unsubscribe());
+  });
+}
+
+/**
+ * Sends the same request again after each delay unless one attempt already
+ * emitted, and takes the first success, e.g. to cut the tail latency of an
+ * idempotent request. The factory receives the index of the attempt.
+ */
+export function hedge<T>(
+    factory: (attempt: number) => Observable<T>,
+    {delays, scheduler = asyncScheduler}: HedgeOptions): Observable<T> {
+  return raceFirstSuccess(
+      defer(() => factory(0)),
+      ...delays.map(
+          (delay, index) => timer(delay, scheduler)
+                                .pipe(concatMap(() => factory(index + 1)))),
+  );
+}
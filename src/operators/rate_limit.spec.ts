@@ -0,0 +1,69 @@
+import {cold, getTestScheduler, time} from 'jasmine-marbles';
+import {delay, throttleTime} from 'rxjs/operators';
+import {rateLimit} from './rate_limit';
+
+
+describe('Custom operator rateLimit()', () => {
+  it('should emit a burst right away and queue the rest until tokens refill', () => {
+    const o = cold('abcde|    ');
+    const e = cold('abc-d-(e|)');
+    const operators = rateLimit({
+      tokens: 1,
+      interval: time('--|'),
+      burst: 2,
+      scheduler: getTestScheduler(),
+    });
+    expect(o.pipe(operators)).toBeObservable(e);
+  });
+
+  it('should not lose values unlike throttleTime() nor delay all of them unlike delay()', () => {
+    const original = cold('abc----d--|    ');
+    const duration = time('--|');
+    const throttle = cold('a-c----d--|    ');
+    const delayAll = cold('--abc----d--|  ');
+    const rateLimi = cold('a-b-c--d--|    ');
+    getTestScheduler().expectObservable(
+        original.pipe(throttleTime(duration, getTestScheduler(), {leading: true, trailing: true})))
+        .toBe(throttle.marbles);
+    getTestScheduler().expectObservable(
+        original.pipe(delay(duration, getTestScheduler())))
+        .toBe(delayAll.marbles);
+    getTestScheduler().expectObservable(
+        original.pipe(rateLimit({tokens: 1, interval: duration, scheduler: getTestScheduler()})))
+        .toBe(rateLimi.marbles);
+  });
+
+  it('should refill up to burst tokens while idle', () => {
+    const o = cold('ab--------cdef|    ');
+    const e = cold('ab--------cde-(f|)');
+    const operators = rateLimit({
+      tokens: 1,
+      interval: time('--|'),
+      burst: 2,
+      scheduler: getTestScheduler(),
+    });
+    expect(o.pipe(operators)).toBeObservable(e);
+  });
+
+  it('should apply the overflow policy at once without a queue', () => {
+    const o = cold('abcde|');
+    const options = {tokens: 1, interval: time('--|'), burst: 2, queueSize: 0, scheduler: getTestScheduler()};
+    const drop = 'ab-d-|';
+    const error = 'ab#   ';
+    getTestScheduler().expectObservable(o.pipe(rateLimit({...options, overflow: 'drop'}))).toBe(drop);
+    getTestScheduler().expectObservable(o.pipe(rateLimit({...options, overflow: 'error'})))
+        .toBe(error, undefined, new Error('rateLimit overflow'));
+  });
+
+  it('should apply the overflow policy when the queue is full', () => {
+    const o = cold('abcde|    ');
+    const options = {tokens: 1, interval: time('--|'), burst: 2, queueSize: 1, scheduler: getTestScheduler()};
+    const queue = 'abc-d-(e|)'; // e is queued anyway
+    const drop = 'abc-d|    '; // e is dropped, d is still queued
+    const error = 'abc-#     ';
+    getTestScheduler().expectObservable(o.pipe(rateLimit({...options, overflow: 'queue'}))).toBe(queue);
+    getTestScheduler().expectObservable(o.pipe(rateLimit({...options, overflow: 'drop'}))).toBe(drop);
+    getTestScheduler().expectObservable(o.pipe(rateLimit({...options, overflow: 'error'})))
+        .toBe(error, undefined, new Error('rateLimit overflow'));
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  asyncScheduler,
+  MonoTypeOperatorFunction,
+  Observable,
+  SchedulerLike,
+  Subscription,
+} from 'rxjs';
+
+
+/** Options for rateLimit(). */
+export interface RateLimitOptions {
+  /** Number of tokens added to the bucket every interval. */
+  tokens: number;
+  /** Refill period of the bucket. */
+  interval: number;
+  /** Capacity of the bucket, which starts full. Default: tokens. */
+  burst?: number;
+  /**
+   * Number of values that wait for a token when the bucket is empty. Default:
+   * Infinity.
+   */
+  queueSize?: number;
+  /**
+   * What happens to a value when the bucket is empty and the queue is full.
+   * With 'queue' (default), it waits for a token anyway, i.e. queueSize is
+   * ignored. With 'drop', it is dropped. With 'error', the stream errors.
+   */
+  overflow?: 'queue'|'drop'|'error';
+  /** Scheduler for the refills. Default: asyncScheduler. */
+  scheduler?: SchedulerLike;
+}
+
+/**
+ * Limits the rate of emissions with a token bucket: each value takes a token,
+ * and the bucket is refilled with tokens every interval. For example,
+ * {tokens: 10, interval: 1000, burst: 20} emits 10 per second on average with
+ * bursts of up to 20. Unlike throttleTime(), values are not lost by default,
+ * and unlike delay(), values are only delayed when the bucket is empty.
+ */
+export function rateLimit<T>({
+  tokens,
+  interval,
+  burst = tokens,
+  queueSize = Infinity,
+  overflow = 'queue',
+  scheduler = asyncScheduler,
+}: RateLimitOptions): MonoTypeOperatorFunction<T> {
+  return source => new Observable<T>(subscriber => {
+    const queue: T[] = [];
+    let available = burst;
+    let refillTimer: Subscription|undefined;
+    let sourceCompleted = false;
+    const subscription = new Subscription();
+
+    const drain = () => {
+      while (available > 0 && queue.length > 0) {
+        available--;
+        subscriber.next(queue.shift()!);
+      }
+      if (sourceCompleted && queue.length === 0) {
+        subscriber.complete();
+      }
+    };
+    const startRefill = () => {
+      if (refillTimer) {
+        return;
+      }
+      refillTimer = scheduler.schedule(function refill() {
+        available = Math.min(burst, available + tokens);
+        drain();
+        if (available < burst) {
+          this.schedule(undefined, interval);
+        } else {
+          refillTimer = undefined;
+        }
+      }, interval);
+      subscription.add(refillTimer);
+    };
+
+    subscription.add(source.subscribe(
+        value => {
+          if (available > 0) {
+            available--;
+            startRefill();
+            subscriber.next(value);
+          } else if (queue.length < queueSize || overflow === 'queue') {
+            queue.push(value);
+          } else if (overflow === 'error') {
+            subscriber.error(new Error('rateLimit overflow'));
+          }
+        },
+        err => subscriber.error(err),
+        () => {
+          sourceCompleted = true;
+          drain();
+        },
+    ));
+    return subscription;
+  });
+}
@@ -0,0 +1,87 @@
+import {cold, getTestScheduler} from 'jasmine-marbles';
+import {map, mergeMap} from 'rxjs/operators';
+import {
+  catchToResult,
+  err,
+  filterMap,
+  flatMapOk,
+  mapOk,
+  ok,
+  partitionResults,
+  unwrapOrThrow,
+} from './result';
+
+
+describe('Result operators', () => {
+  const error = new Error('failed');
+
+  it('should terminate the stream on the first inner error without Result', () => {
+    const x = cold('-x-y-z-|');
+    const o = x.pipe(mergeMap(
+        v => v === 'y' ? cold('#', undefined, error) : cold('(V|)', {V: v})));
+    expect(o).toBeObservable(cold('-a-#', {a: 'x'}, error));
+  });
+
+  it('should carry an inner error as Err with flatMapOk()', () => {
+    const x = cold('-x-y-z-|');
+    const o = x.pipe(
+        map(v => ok(v)),
+        flatMapOk(v => v === 'y' ? cold('#', undefined, error) :
+                                   cold('(V|)', {V: v.toUpperCase()})),
+    );
+    const e = cold('-a-b-c-|', {a: ok('X'), b: err(error), c: ok('Z')});
+    expect(o).toBeObservable(e);
+  });
+
+  it('should turn an error thrown by the project into Err with mapOk()', () => {
+    const x = cold('-a-b-c-|', {a: ok(1), b: ok(0), c: err('skipped')});
+    const o = x.pipe(mapOk((v: number) => {
+      if (v === 0) {
+        throw error;
+      }
+      return 10 / v;
+    }));
+    const e = cold('-a-b-c-|', {a: ok(10), b: err(error), c: err('skipped')});
+    expect(o).toBeObservable(e);
+  });
+
+  it('should turn the error of a stream into a last Err with catchToResult()', () => {
+    const x = cold('-a-#', undefined, error);
+    const e = cold('-a-(b|)', {a: ok('a'), b: err(error)});
+    expect(x.pipe(catchToResult())).toBeObservable(e);
+  });
+
+  it('should keep the outer stream alive with catchToResult() on inner streams', () => {
+    const x = cold('-x-y-z-|');
+    const o = x.pipe(mergeMap(v => (v === 'y' ? cold('#', undefined, error) :
+                                                cold('(V|)', {V: v}))
+                                       .pipe(catchToResult())));
+    const e = cold('-a-b-c-|', {a: ok('x'), b: err(error), c: ok('z')});
+    expect(o).toBeObservable(e);
+  });
+
+  it('should map and drop undefined with filterMap()', () => {
+    const x = cold('-a-b-c-|', {a: '1', b: 'x', c: '3'});
+    const o = x.pipe(filterMap(v => {
+      const n = Number(v);
+      return isNaN(n) ? undefined : n;
+    }));
+    // n is a number, not number|undefined
+    expect(o.pipe(map(n => n * 2)))
+        .toBeObservable(cold('-a---c-|', {a: 2, c: 6}));
+  });
+
+  it('should split the values and the errors with partitionResults()', () => {
+    const x = cold('-a-b-c-|', {a: ok(1), b: err(error), c: ok(3)});
+    const [values, errors] = partitionResults(x);
+    getTestScheduler().expectObservable(values)
+        .toBe('-a---c-|', {a: 1, c: 3});
+    getTestScheduler().expectObservable(errors).toBe('---b---|', {b: error});
+  });
+
+  it('should error at the first Err with unwrapOrThrow()', () => {
+    const x = cold('-a-b-c-|', {a: ok(1), b: err(error), c: ok(3)});
+    expect(x.pipe(unwrapOrThrow()))
+        .toBeObservable(cold('-a-#', {a: 1}, error));
+  });
+});
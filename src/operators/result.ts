@@ -0,0 +1,127 @@
+import {
+  defer,
+  Observable,
+  ObservableInput,
+  of,
+  OperatorFunction,
+  throwError,
+} from 'rxjs';
+import {catchError, filter, map, mergeMap} from 'rxjs/operators';
+
+
+/** A success value of a Result. */
+export interface Ok<T> {
+  ok: true;
+  value: T;
+}
+
+/** A per-item error of a Result. */
+export interface Err<E> {
+  ok: false;
+  error: E;
+}
+
+/**
+ * A success value or an error carried as a value, so that one failing item
+ * does not terminate the stream.
+ */
+export type Result<T, E = unknown> = Ok<T>|Err<E>;
+
+/** Wraps a success value. */
+export function ok<T>(value: T): Ok<T> {
+  return {ok: true, value};
+}
+
+/** Wraps a per-item error. */
+export function err<E>(error: E): Err<E> {
+  return {ok: false, error};
+}
+
+/** Whether the result is a success value, with narrowing. */
+export function isOk<T, E>(result: Result<T, E>): result is Ok<T> {
+  return result.ok;
+}
+
+/** Whether the result is an error, with narrowing. */
+export function isErr<T, E>(result: Result<T, E>): result is Err<E> {
+  return !result.ok;
+}
+
+/**
+ * Wraps values in Ok and turns the error of the stream into a last Err, then
+ * completes. Apply it to inner streams, e.g. in concatMap(), to keep the outer
+ * stream alive.
+ */
+export function catchToResult<T, E = unknown>():
+    OperatorFunction<T, Result<T, E>> {
+  return source$ => source$.pipe(
+      map(value => ok(value) as Result<T, E>),
+      catchError(error => of(err(error as E))),
+  );
+}
+
+/**
+ * Maps the Ok values and passes the Err through. An error thrown by project
+ * becomes an Err for that item only.
+ */
+export function mapOk<T, R, E = unknown>(project: (value: T) => R):
+    OperatorFunction<Result<T, E>, Result<R, E>> {
+  return map(result => {
+    if (!result.ok) {
+      return result;
+    }
+    try {
+      return ok(project(result.value));
+    } catch (error) {
+      return err(error as E);
+    }
+  });
+}
+
+/**
+ * Like mergeMap() on the Ok values: the values of the inner streams become Ok
+ * and an inner error becomes an Err, without terminating the outer stream.
+ * Err are passed through.
+ */
+export function flatMapOk<T, R, E = unknown>(
+    project: (value: T) => ObservableInput<R>,
+    concurrent = Infinity): OperatorFunction<Result<T, E>, Result<R, E>> {
+  return mergeMap(result => {
+    if (!result.ok) {
+      return of(result);
+    }
+    // defer() turns an error thrown by project into an error of the stream
+    return defer(() => project(result.value)).pipe(catchToResult<R, E>());
+  }, concurrent);
+}
+
+/**
+ * Maps the values and drops undefined, like filter() and map() together, but
+ * the type of the result excludes undefined.
+ */
+export function filterMap<T, R>(
+    project: (value: T, index: number) => R | undefined):
+    OperatorFunction<T, R> {
+  return source$ => source$.pipe(
+      map(project),
+      filter((value): value is R => value !== undefined),
+  );
+}
+
+/**
+ * Splits a stream of Result into the Ok values and the errors, like
+ * partition(). Each of them subscribes to the source.
+ */
+export function partitionResults<T, E>(source$: Observable<Result<T, E>>):
+    [Observable<T>, Observable<E>] {
+  return [
+    source$.pipe(filter(isOk), map(result => result.value)),
+    source$.pipe(filter(isErr), map(result => result.error)),
+  ];
+}
+
+/** Unwraps the Ok values and errors at the first Err. */
+export function unwrapOrThrow<T, E>(): OperatorFunction<Result<T, E>, T> {
+  return mergeMap(
+      result => result.ok ? of(result.value) : throwError(result.error));
+}
@@ -0,0 +1,98 @@
+import {cold, getTestScheduler, time} from 'jasmine-marbles';
+import {defer} from 'rxjs';
+import {take} from 'rxjs/operators';
+import {retryWithBackoff} from './retry_with_backoff';
+
+
+describe('Custom operator retryWithBackoff()', () => {
+  it('should double the delay at each attempt', () => {
+    const x = cold('x#');
+    const o = x.pipe(retryWithBackoff({
+      initialDelay: time('--|'),
+      maxAttempts: 3,
+      scheduler: getTestScheduler(),
+    }));
+    const e = cold('x--x----x--------x#');
+    const xSubs = ['^!                 ',
+      /*       */  '---^!              ',
+      /*       */  '--------^!         ',
+      /*       */  '-----------------^!'];
+    expect(o).toBeObservable(e);
+    expect(x).toHaveSubscriptions(xSubs);
+  });
+
+  it('should not delay more than maxDelay', () => {
+    const x = cold('x#');
+    const o = x.pipe(retryWithBackoff({
+      initialDelay: time('--|'),
+      maxDelay: time('---|'),
+      maxAttempts: 3,
+      scheduler: getTestScheduler(),
+    }));
+    expect(o).toBeObservable(cold('x--x---x---x#'));
+  });
+
+  it('should randomize the delay with full jitter', () => {
+    const x = cold('x#');
+    const o = x.pipe(retryWithBackoff({
+      initialDelay: time('--|'),
+      maxAttempts: 3,
+      jitter: 'full',
+      random: () => 0.5,
+      scheduler: getTestScheduler(),
+    }));
+    expect(o).toBeObservable(cold('x-x--x----x#'));  // delays: 1, 2, 4 frames
+  });
+
+  it('should randomize the delay with decorrelated jitter', () => {
+    const x = cold('x#');
+    const o = x.pipe(retryWithBackoff({
+      initialDelay: time('--|'),
+      maxAttempts: 2,
+      jitter: 'decorrelated',
+      random: () => 0.5,
+      scheduler: getTestScheduler(),
+    }));
+    expect(o).toBeObservable(cold('x----x-------x#'));  // delays: 4, 7 frames
+  });
+
+  it('should reset attempts after a successful emission with resetOnSuccess', () => {
+    const x = cold('x#');
+    const options = {initialDelay: time('--|'), maxAttempts: 2, scheduler: getTestScheduler()};
+    const withReset = x.pipe(retryWithBackoff({...options, resetOnSuccess: true}), take(4));
+    const noReset = x.pipe(retryWithBackoff(options));
+    getTestScheduler().expectObservable(withReset).toBe('x--x--x--(x|)');
+    getTestScheduler().expectObservable(noReset).toBe('x--x----x#');
+  });
+
+  it('should only retry errors accepted by shouldRetry', () => {
+    const retryable = {retryable: true};
+    const fatal = {retryable: false};
+    let n = 0;
+    const o = defer(() => [
+      cold('x#', undefined, retryable),
+      cold('y#', undefined, fatal),
+    ][n++]).pipe(retryWithBackoff({
+      initialDelay: time('--|'),
+      shouldRetry: error => (error as typeof retryable).retryable,
+      scheduler: getTestScheduler(),
+    }));
+    expect(o).toBeObservable(cold('x--y#', undefined, fatal));
+  });
+
+  it('should call onRetry with the attempt number', () => {
+    const retries: Array<[number, number]> = [];
+    const o = cold('x#').pipe(retryWithBackoff({
+      initialDelay: time('--|'),
+      maxAttempts: 3,
+      onRetry: (attempt, error, delay) => retries.push([attempt, delay]),
+      scheduler: getTestScheduler(),
+    }));
+    expect(o).toBeObservable(cold('x--x----x--------x#'));
+    expect(retries).toEqual([
+      [1, time('--|')],
+      [2, time('----|')],
+      [3, time('--------|')],
+    ]);
+  });
+});
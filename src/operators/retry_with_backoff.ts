@@ -0,0 +1,92 @@
+import {
+  asyncScheduler,
+  defer,
+  MonoTypeOperatorFunction,
+  SchedulerLike,
+  throwError,
+  timer,
+} from 'rxjs';
+import {mergeMap, retryWhen, tap} from 'rxjs/operators';
+
+
+/** Options for retryWithBackoff(). */
+export interface RetryWithBackoffOptions {
+  /** Delay before the first retry. Default: 1000. */
+  initialDelay?: number;
+  /** Upper bound for every delay. Default: Infinity. */
+  maxDelay?: number;
+  /** Maximum number of retries. Default: Infinity. */
+  maxAttempts?: number;
+  /**
+   * With 'none' (default), the delay doubles at each attempt. With 'full', the
+   * delay is random between 0 and the doubled delay. With 'decorrelated', the
+   * delay is random between initialDelay and 3 times the previous delay.
+   * @see https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+   */
+  jitter?: 'none'|'full'|'decorrelated';
+  /** Starts counting attempts again after each value from the source. */
+  resetOnSuccess?: boolean;
+  /** Decides whether the error is retryable. Default: all errors are. */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /** Called before waiting for each retry; attempt starts at 1. */
+  onRetry?: (attempt: number, error: unknown, delay: number) => void;
+  /** Scheduler for the delays. Default: asyncScheduler. */
+  scheduler?: SchedulerLike;
+  /** Source of randomness for jitter, in [0, 1). Default: Math.random. */
+  random?: () => number;
+}
+
+/**
+ * Like retry(), but resubscribes to the source after an exponential backoff
+ * delay.
+ */
+export function retryWithBackoff<T>({
+  initialDelay = 1000,
+  maxDelay = Infinity,
+  maxAttempts = Infinity,
+  jitter = 'none',
+  resetOnSuccess = false,
+  shouldRetry = () => true,
+  onRetry = () => {},
+  scheduler = asyncScheduler,
+  random = Math.random,
+}: RetryWithBackoffOptions = {}): MonoTypeOperatorFunction<T> {
+  const nextDelay = (attempt: number, previousDelay: number) => {
+    const exponential = initialDelay * Math.pow(2, attempt - 1);
+    switch (jitter) {
+      case 'full':
+        return Math.min(maxDelay, random() * exponential);
+      case 'decorrelated':
+        return Math.min(
+            maxDelay,
+            initialDelay + random() * (previousDelay * 3 - initialDelay));
+      default:
+        return Math.min(maxDelay, exponential);
+    }
+  };
+
+  return source => defer(() => {
+    let attempt = 0;
+    let previousDelay = initialDelay;
+    return source.pipe(
+        tap(() => {
+          if (resetOnSuccess) {
+            attempt = 0;
+            previousDelay = initialDelay;
+          }
+        }),
+        retryWhen(errors => errors.pipe(
+            mergeMap(error => {
+              attempt++;
+              if (attempt > maxAttempts || !shouldRetry(error, attempt)) {
+                return throwError(error);
+              }
+              const delay = nextDelay(attempt, previousDelay);
+              previousDelay = delay;
+              onRetry(attempt, error, delay);
+              return timer(delay, scheduler);
+            }),
+        )),
+    );
+  });
+}
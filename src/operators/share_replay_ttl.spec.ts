@@ -0,0 +1,141 @@
+import {cold, getTestScheduler, hot, time} from 'jasmine-marbles';
+import {defer} from 'rxjs';
+import {retry} from 'rxjs/operators';
+import {shareReplayTTL} from './share_replay_ttl';
+
+
+describe('Custom operator shareReplayTTL()', () => {
+  it('should be the same as shareReplay(1) without expiry', () => {
+    const rpc = cold('----x|         ');
+    const rpcSubs = ['--^----!       ']; // only subscribe once
+    const shared = rpc.pipe(shareReplayTTL({bufferSize: 1, scheduler: getTestScheduler()}));
+    const ob1SubsM = '--^ !          ';
+    const ob2SubsM = '-----^         ';
+    const ob3SubsM = '-----------^   ';
+    const expcOb1M = '--             ';
+    const expcOb2M = '------x|       ';
+    const expcOb3M = '-----------(x|)'; // get the last cached value
+
+    getTestScheduler().expectObservable(shared, ob1SubsM).toBe(expcOb1M);
+    getTestScheduler().expectObservable(shared, ob2SubsM).toBe(expcOb2M);
+    getTestScheduler().expectObservable(shared, ob3SubsM).toBe(expcOb3M);
+    getTestScheduler().expectSubscriptions(rpc.getSubscriptions()).toBe(rpcSubs);
+  });
+
+  it('should be the same as publishReplay(1), refCount() in edge case with refCount', () => {
+    const rpc = cold('----x|         ');
+    const rpcSubs = ['--^-!          ', /// unsubscribed early
+      /*          */ '-----^----!    ']; // lead to second subscription
+    const shared = rpc.pipe(shareReplayTTL({bufferSize: 1, refCount: true, scheduler: getTestScheduler()}));
+    const ob1SubsM = '--^ !          ';
+    const ob2SubsM = '-----^         ';
+    const ob3SubsM = '-----------^   ';
+    const expcOb1M = '--             ';
+    const expcOb2M = '---------x|    ';
+    const expcOb3M = '-----------(x|)'; // get the last cached value
+
+    getTestScheduler().expectObservable(shared, ob1SubsM).toBe(expcOb1M);
+    getTestScheduler().expectObservable(shared, ob2SubsM).toBe(expcOb2M);
+    getTestScheduler().expectObservable(shared, ob3SubsM).toBe(expcOb3M);
+    getTestScheduler().expectSubscriptions(rpc.getSubscriptions()).toBe(rpcSubs);
+  });
+
+  it('should subscribe the source again for subscribers arriving after the TTL', () => {
+    const rpc = cold('----x|              ');
+    const rpcSubs = ['--^----!            ',
+      /*          */ '----------^----!    ']; // cache expired at frame 9
+    const shared = rpc.pipe(shareReplayTTL({
+      bufferSize: 1,
+      ttl: time('---|'),
+      scheduler: getTestScheduler(),
+    }));
+    const ob1SubsM = '--^                 ';
+    const ob2SubsM = '--------^           ';
+    const ob3SubsM = '----------^         ';
+    const expcOb1M = '------x|            ';
+    const expcOb2M = '--------(x|)        '; // x is still fresh
+    const expcOb3M = '--------------x|    '; // x is stale
+
+    getTestScheduler().expectObservable(shared, ob1SubsM).toBe(expcOb1M);
+    getTestScheduler().expectObservable(shared, ob2SubsM).toBe(expcOb2M);
+    getTestScheduler().expectObservable(shared, ob3SubsM).toBe(expcOb3M);
+    getTestScheduler().expectSubscriptions(rpc.getSubscriptions()).toBe(rpcSubs);
+  });
+
+  it('should unsubscribe the source and complete the subscribers of the expired cache without refCount', () => {
+    const rpc = cold('----x-----y----------');
+    const rpcSubs = ['--^-------!           ', // ends at expiry
+      /*          */ '----------^           '];
+    const shared = rpc.pipe(shareReplayTTL({
+      bufferSize: 1,
+      ttl: time('---|'),
+      scheduler: getTestScheduler(),
+    }));
+    const ob1SubsM = '--^                  ';
+    const ob2SubsM = '----------^          ';
+    const expcOb1M = '------x---|          '; // not left waiting for y
+    const expcOb2M = '--------------x-----y';
+
+    getTestScheduler().expectObservable(shared, ob1SubsM).toBe(expcOb1M);
+    getTestScheduler().expectObservable(shared, ob2SubsM).toBe(expcOb2M);
+    getTestScheduler().expectSubscriptions(rpc.getSubscriptions()).toBe(rpcSubs);
+  });
+
+  it('should subscribe the source again after an error like shareReplay()', () => {
+    const rpcs = [cold('--#'), cold('--x|')];
+    let calls = 0;
+    const rpc = defer(() => rpcs[calls++]);
+    const shared = rpc.pipe(shareReplayTTL({bufferSize: 1, scheduler: getTestScheduler()}));
+    const ob1SubsM = '^         ';
+    const ob2SubsM = '------^   ';
+    const expcOb1M = '----x|    '; // retried at frame 2
+    const expcOb2M = '------(x|)'; // the retry is cached
+
+    getTestScheduler().expectObservable(shared.pipe(retry(1)), ob1SubsM).toBe(expcOb1M);
+    getTestScheduler().expectObservable(shared, ob2SubsM).toBe(expcOb2M);
+    getTestScheduler().flush();
+    expect(calls).toBe(2);
+  });
+
+  it('should not expire before the first value is emitted', () => {
+    const rpc = cold('------x|       ');
+    const rpcSubs = ['^------!       '];
+    const shared = rpc.pipe(shareReplayTTL({
+      bufferSize: 1,
+      ttl: time('---|'),
+      scheduler: getTestScheduler(),
+    }));
+    const ob1SubsM = '^              ';
+    const ob2SubsM = '----^          ';
+    const expcOb1M = '------x|       ';
+    const expcOb2M = '------x|       ';
+
+    getTestScheduler().expectObservable(shared, ob1SubsM).toBe(expcOb1M);
+    getTestScheduler().expectObservable(shared, ob2SubsM).toBe(expcOb2M);
+    getTestScheduler().expectSubscriptions(rpc.getSubscriptions()).toBe(rpcSubs);
+  });
+
+  it('should subscribe the source again for subscribers arriving after invalidate$ emits', () => {
+    const rpc = cold('----x|              ');
+    const rpcSubs = ['--^----!            ',
+      /*          */ '----------^----!    '];
+    const invalidate = hot('---------i          ');
+    const shared = rpc.pipe(shareReplayTTL({
+      bufferSize: 1,
+      invalidate$: invalidate,
+      scheduler: getTestScheduler(),
+    }));
+    const ob1SubsM = '--^                 ';
+    const ob2SubsM = '--------^           ';
+    const ob3SubsM = '----------^         ';
+    const expcOb1M = '------x|            ';
+    const expcOb2M = '--------(x|)        ';
+    const expcOb3M = '--------------x|    ';
+
+    getTestScheduler().expectObservable(shared, ob1SubsM).toBe(expcOb1M);
+    getTestScheduler().expectObservable(shared, ob2SubsM).toBe(expcOb2M);
+    getTestScheduler().expectObservable(shared, ob3SubsM).toBe(expcOb3M);
+    getTestScheduler().expectSubscriptions(rpc.getSubscriptions()).toBe(rpcSubs);
+    getTestScheduler().expectSubscriptions(invalidate.getSubscriptions()).toBe(['--^------!', '----------^']);
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  asyncScheduler,
+  ConnectableObservable,
+  defer,
+  MonoTypeOperatorFunction,
+  Observable,
+  ReplaySubject,
+  SchedulerLike,
+  Subscription,
+} from 'rxjs';
+import {multicast, shareReplay, tap} from 'rxjs/operators';
+
+
+/** Options for shareReplayTTL(). */
+export interface ShareReplayTTLConfig {
+  /** Number of values replayed. Default: Infinity. */
+  bufferSize?: number;
+  /**
+   * Time a cached value stays fresh after it is emitted. A subscriber arriving
+   * later gets a fresh subscription to the source. Default: Infinity.
+   */
+  ttl?: number;
+  /**
+   * Same as in shareReplay({refCount}). Without it, the source stays
+   * subscribed until the cache expires, which completes the current
+   * subscribers. Default: false.
+   */
+  refCount?: boolean;
+  /**
+   * Each emission expires the cache, so that the next subscriber gets a fresh
+   * subscription to the source.
+   */
+  invalidate$?: Observable<unknown>;
+  /** Scheduler for the current time. Default: asyncScheduler. */
+  scheduler?: SchedulerLike;
+}
+
+interface Cache<T> {
+  shared: Observable<T>;
+  expiresAt: number;
+  /** The subject and the subscription to the source, without refCount. */
+  subject?: ReplaySubject<T>;
+  connection?: Subscription;
+  invalidation?: Subscription;
+}
+
+/**
+ * Like shareReplay(), but the cached values expire. This is meant for caching
+ * RPC results that get stale.
+ */
+export function shareReplayTTL<T>({
+  bufferSize = Infinity,
+  ttl = Infinity,
+  refCount = false,
+  invalidate$,
+  scheduler = asyncScheduler,
+}: ShareReplayTTLConfig = {}): MonoTypeOperatorFunction<T> {
+  return source => {
+    let cache: Cache<T>|undefined;
+
+    /** Drops the cache, so that the next subscriber gets a new one. */
+    const evict = (evicted: Cache<T>) => {
+      if (evicted.invalidation) {
+        evicted.invalidation.unsubscribe();
+      }
+      if (cache === evicted) {
+        cache = undefined;
+      }
+    };
+    const expire = () => {
+      if (!cache) {
+        return;
+      }
+      const expired = cache;
+      // Completes the current subscribers before their source is gone.
+      if (expired.subject) {
+        expired.subject.complete();
+      }
+      if (expired.connection) {
+        expired.connection.unsubscribe();
+      }
+      evict(expired);
+    };
+    const createCache = () => {
+      // Never expires before the first value is emitted.
+      const created: Cache<T> = {shared: source, expiresAt: Infinity};
+      // Like shareReplay(), an error is not replayed to later subscribers.
+      const fresh$ = source.pipe(tap(
+          () => created.expiresAt = scheduler.now() + ttl,
+          () => evict(created),
+      ));
+      if (refCount) {
+        created.shared = fresh$.pipe(shareReplay({bufferSize, refCount}));
+        return created;
+      }
+      // Unlike shareReplay(), keeps the connection to end it on expiry.
+      const subject = new ReplaySubject<T>(bufferSize);
+      const replayed$ =
+          fresh$.pipe(multicast(subject)) as ConnectableObservable<T>;
+      created.subject = subject;
+      created.shared = new Observable<T>(subscriber => {
+        const subscription = replayed$.subscribe(subscriber);
+        if (!created.connection) {
+          created.connection = replayed$.connect();
+        }
+        return subscription;
+      });
+      return created;
+    };
+
+    return defer(() => {
+      if (cache && scheduler.now() >= cache.expiresAt) {
+        expire();
+      }
+      if (!cache) {
+        const created = createCache();
+        cache = created;
+        if (invalidate$) {
+          created.invalidation = invalidate$.subscribe(() => {
+            if (cache === created) {
+              expire();
+            }
+          });
+        }
+      }
+      return cache.shared;
+    });
+  };
+}
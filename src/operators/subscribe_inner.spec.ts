@@ -0,0 +1,39 @@
+import {cold, getTestScheduler} from 'jasmine-marbles';
+import {of, Subscription} from 'rxjs';
+import {subscribeInner} from './subscribe_inner';
+
+
+describe('subscribeInner()', () => {
+  it('should not keep the subscription of a synchronous inner observable', () => {
+    const parent = new Subscription();
+    const values: number[] = [];
+    let completed = false;
+    spyOn(parent, 'add').and.callThrough();
+    subscribeInner(parent, of(1, 2), {
+      next: v => values.push(v),
+      complete: () => completed = true,
+    });
+    expect(values).toEqual([1, 2]);
+    expect(completed).toBe(true);
+    expect(parent.add).not.toHaveBeenCalled();
+  });
+
+  it('should keep the subscription until the inner observable terminates', () => {
+    const parent = new Subscription();
+    const inner = cold('-a|');
+    spyOn(parent, 'remove').and.callThrough();
+    subscribeInner(parent, inner, {next: () => {}});
+    getTestScheduler().flush();
+    expect(parent.remove).toHaveBeenCalledTimes(1);
+    expect(inner).toHaveSubscriptions('^-!');
+  });
+
+  it('should unsubscribe the inner observable with the parent', () => {
+    const parent = new Subscription();
+    const inner = cold('---a|');
+    subscribeInner(parent, inner, {next: () => {}});
+    getTestScheduler().schedule(() => parent.unsubscribe(), getTestScheduler().createTime('-|'));
+    getTestScheduler().flush();
+    expect(inner).toHaveSubscriptions('^!');
+  });
+});
@@ -0,0 +1,24 @@
+import {
+  from,
+  ObservableInput,
+  PartialObserver,
+  Subscriber,
+  Subscription,
+} from 'rxjs';
+
+
+/**
+ * Subscribes to an inner observable of a flattening operator and keeps its
+ * subscription in the parent until it terminates. An inner observable that
+ * terminates synchronously, before subscribe() returns, is never added.
+ */
+export function subscribeInner<R>(
+    parent: Subscription, inner: ObservableInput<R>,
+    observer: PartialObserver<R>): void {
+  // Once added, it removes itself from the parent when it terminates.
+  const innerSubscriber = new Subscriber<R>(observer);
+  from(inner).subscribe(innerSubscriber);
+  if (!innerSubscriber.closed) {
+    parent.add(innerSubscriber);
+  }
+}
@@ -0,0 +1,72 @@
+import {cold, getTestScheduler} from 'jasmine-marbles';
+import {valve} from './valve';
+
+
+describe('Custom operator valve()', () => {
+  const values = {o: true, c: false};
+
+  it('should drop, buffer or keep latest values while closed', () => {
+    const x = cold('a-b-c-d-----e-f|');
+    const v = cold('o--c---o        ', values);
+    const drop = 'a-b---------e-f|';
+    const buffer = 'a-b----(cd)-e-f|';
+    const latest = 'a-b----d----e-f|';
+    getTestScheduler().expectObservable(x.pipe(valve(v))).toBe(drop);
+    getTestScheduler().expectObservable(x.pipe(valve(v, {mode: 'buffer'}))).toBe(buffer);
+    getTestScheduler().expectObservable(x.pipe(valve(v, {mode: 'latest'}))).toBe(latest);
+  });
+
+  it('should open and close repeatedly without resubscribing the source', () => {
+    const x = cold('a---b---c---d---|');
+    const v = cold('o-c---o-c---o    ', values);
+    const o = x.pipe(valve(v, {mode: 'buffer'}));
+    expect(o).toBeObservable(cold('a-----b-----(cd)|'));
+    expect(x).toHaveSubscriptions('^---------------!');
+  });
+
+  it('should be closed until open$ emits', () => {
+    const x = cold('a-b----c|');
+    const v = cold('---o     ', values);
+    const drop = '-------c|';
+    const buffer = '---(ab)c|';
+    getTestScheduler().expectObservable(x.pipe(valve(v))).toBe(drop);
+    getTestScheduler().expectObservable(x.pipe(valve(v, {mode: 'buffer'}))).toBe(buffer);
+  });
+
+  it('should flush held values before completing if the source completes while closed', () => {
+    const x = cold('a-b|   ');
+    const v = cold('c----o ', values);
+    const drop = '---|   ';
+    const buffer = '-----(ab|)';
+    getTestScheduler().expectObservable(x.pipe(valve(v))).toBe(drop);
+    getTestScheduler().expectObservable(x.pipe(valve(v, {mode: 'buffer'}))).toBe(buffer);
+  });
+
+  it('should complete without flushing if open$ completes while closed', () => {
+    const x = cold('a-b-----|');
+    const v = cold('c--|     ', values);
+    const o = x.pipe(valve(v, {mode: 'buffer'}));
+    expect(o).toBeObservable(cold('--------|'));
+  });
+
+  it('should stop holding values once open$ completes while closed', () => {
+    const x = cold('a-b-c|');
+    const v = cold('c|    ', values);
+    const o = x.pipe(valve(v, {mode: 'buffer', bufferSize: 1, overflow: 'error'}));
+    expect(o).toBeObservable(cold('-----|'));  // no overflow
+  });
+
+  it('should apply the overflow policy when the buffer is full', () => {
+    const x = cold('a-b-c-d|      ');
+    const v = cold('c-------o     ', values);
+    const dropOldest = '--------(cd|)';
+    const dropNewest = '--------(ab|)';
+    const error = '----#        ';
+    getTestScheduler().expectObservable(x.pipe(valve(v, {mode: 'buffer', bufferSize: 2})))
+        .toBe(dropOldest);  // drop-oldest by default
+    getTestScheduler().expectObservable(x.pipe(valve(v, {mode: 'buffer', bufferSize: 2, overflow: 'drop-newest'})))
+        .toBe(dropNewest);
+    getTestScheduler().expectObservable(x.pipe(valve(v, {mode: 'buffer', bufferSize: 2, overflow: 'error'})))
+        .toBe(error, undefined, new Error('valve buffer overflow'));
+  });
+});
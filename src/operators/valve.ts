@@ -0,0 +1,93 @@
+import {MonoTypeOperatorFunction, Observable, Subscription} from 'rxjs';
+
+
+/** Options for valve(). */
+export interface ValveOptions {
+  /**
+   * What happens to values emitted while the valve is closed. With 'drop'
+   * (default), they are dropped. With 'buffer', they are kept and flushed in
+   * order when the valve opens. With 'latest', only the last one is kept.
+   */
+  mode?: 'drop'|'buffer'|'latest';
+  /** Maximum number of values kept in 'buffer' mode. Default: Infinity. */
+  bufferSize?: number;
+  /** Policy when the buffer is full. Default: 'drop-oldest'. */
+  overflow?: 'drop-oldest'|'drop-newest'|'error';
+}
+
+/**
+ * Lets values through only while open$ last emitted true. Unlike waitUntil(),
+ * the valve can close again. It is closed until open$ emits.
+ * @see waitUntil
+ */
+export function valve<T>(
+    open$: Observable<boolean>,
+    {mode = 'drop', bufferSize = Infinity, overflow = 'drop-oldest'}:
+        ValveOptions = {}): MonoTypeOperatorFunction<T> {
+  const capacity = mode === 'latest' ? 1 : bufferSize;
+  return input$ => new Observable<T>(subscriber => {
+    // Values held back while the valve is closed.
+    const held: T[] = [];
+    let isOpen = false;
+    let inputCompleted = false;
+    let openCompleted = false;
+    const subscription = new Subscription();
+
+    const hold = (value: T) => {
+      // Once open$ completes while closed, the valve never opens again.
+      if (mode === 'drop' || openCompleted) {
+        return;
+      }
+      if (held.length < capacity) {
+        held.push(value);
+      } else if (mode === 'latest' || overflow === 'drop-oldest') {
+        held.shift();
+        held.push(value);
+      } else if (overflow === 'error') {
+        subscriber.error(new Error('valve buffer overflow'));
+      }
+    };
+
+    subscription.add(open$.subscribe(
+        value => {
+          isOpen = value;
+          if (!isOpen) {
+            return;
+          }
+          for (const heldValue of held.splice(0)) {
+            subscriber.next(heldValue);
+          }
+          if (inputCompleted) {
+            subscriber.complete();
+          }
+        },
+        err => subscriber.error(err),
+        () => {
+          openCompleted = true;
+          // Held values can no longer be flushed.
+          held.length = 0;
+          if (inputCompleted) {
+            subscriber.complete();
+          }
+        },
+    ));
+
+    subscription.add(input$.subscribe(
+        value => {
+          if (isOpen) {
+            subscriber.next(value);
+          } else {
+            hold(value);
+          }
+        },
+        err => subscriber.error(err),
+        () => {
+          inputCompleted = true;
+          if (isOpen || openCompleted || held.length === 0) {
+            subscriber.complete();
+          }
+        },
+    ));
+    return subscription;
+  });
+}
@@ -1,4 +1,5 @@
-import {cold} from 'jasmine-marbles';
+import {cold, getTestScheduler, time} from 'jasmine-marbles';
+import {ReplaySubject} from 'rxjs';
 import {waitUntil} from './wait_until';
 
 
@@ -12,4 +13,175 @@ describe('Custom operator waitUntil()', () => {
     const e = cold('------y--z|');
     expect(o).toBeObservable(e);
   });
+
+  it('should keep only the last early value by default but all of them with mode=buffer', () => {
+    const x = cold('-x-y-------z|');
+    const a = cold('------a|     ');
+    const b = cold('b|           ');
+    const latest = '------y----z|';
+    const buffer = '------(xy)-z|';
+    getTestScheduler().expectObservable(x.pipe(waitUntil(a, b))).toBe(latest);
+    getTestScheduler().expectObservable(x.pipe(waitUntil([a, b], {mode: 'latest'}))).toBe(latest);
+    getTestScheduler().expectObservable(x.pipe(waitUntil([a, b], {mode: 'buffer'}))).toBe(buffer);
+  });
+
+  it('should flush early values and complete if the source completes before gates open', () => {
+    const x = cold('-x-y|      ');
+    const a = cold('------a|   ');
+    const latest = '------(y|) ';
+    const buffer = '------(xy|)';
+    getTestScheduler().expectObservable(x.pipe(waitUntil(a))).toBe(latest);
+    getTestScheduler().expectObservable(x.pipe(waitUntil([a], {mode: 'buffer'}))).toBe(buffer);
+  });
+
+  it('should not emit if a gating observable completes without emitting', () => {
+    const x = cold('-x-y-----z|');
+    const a = cold('----|      ');
+    const e = '----------|';
+    getTestScheduler().expectObservable(x.pipe(waitUntil(a))).toBe(e);
+    getTestScheduler().expectObservable(x.pipe(waitUntil([a], {mode: 'buffer'}))).toBe(e);
+  });
+
+  it('should not gate without gating observables', () => {
+    const x = cold('-x-y-|');
+    getTestScheduler().expectObservable(x.pipe(waitUntil())).toBe(x.marbles);
+    getTestScheduler().expectObservable(x.pipe(waitUntil([], {mode: 'buffer'}))).toBe(x.marbles);
+  });
+
+  it('should apply the overflow policy when the buffer is full', () => {
+    const x = cold('-w-x-y-------z|');
+    const a = cold('--------a|     ');
+    const dropOldest = '--------(xy)-z|';
+    const dropNewest = '--------(wx)-z|';
+    const error = '-----#         ';
+    getTestScheduler().expectObservable(x.pipe(waitUntil([a], {mode: 'buffer', bufferSize: 2})))
+        .toBe(dropOldest);  // drop-oldest by default
+    getTestScheduler().expectObservable(x.pipe(waitUntil([a], {mode: 'buffer', bufferSize: 2, overflow: 'drop-newest'})))
+        .toBe(dropNewest);
+    getTestScheduler().expectObservable(x.pipe(waitUntil([a], {mode: 'buffer', bufferSize: 2, overflow: 'error'})))
+        .toBe(error, undefined, new Error('waitUntil buffer overflow'));
+  });
+
+  it('should accept named gating observables', () => {
+    const x = cold('-x-y-----z|');
+    const o = x.pipe(waitUntil({config: cold('------a|'), auth: cold('--c|')}));
+    expect(o).toBeObservable(cold('------y--z|'));
+  });
+
+  it('should report pending gating observables', () => {
+    const pendingRecorder = new ReplaySubject<string[]>(undefined, undefined, getTestScheduler());
+    const x = cold('-x-y-----z|');
+    const config = cold('------a|');
+    const auth = cold('--c|');
+    const o = x.pipe(waitUntil({config, auth}, {pending: pendingRecorder}));
+    getTestScheduler().expectObservable(o).toBe('------y--z|');
+    getTestScheduler().expectObservable(pendingRecorder).toBe('A-B---(C|)', {
+      A: ['config', 'auth'],
+      B: ['config'],
+      C: [],
+    });
+  });
+
+  it('should name unnamed gating observables by index in the report', () => {
+    const pendingRecorder = new ReplaySubject<string[]>(undefined, undefined, getTestScheduler());
+    const x = cold('-x-y-----z|');
+    const o = x.pipe(waitUntil([cold('------a|'), cold('--c|')], {pending: pendingRecorder}));
+    getTestScheduler().expectObservable(o).toBe('------y--z|');
+    getTestScheduler().expectObservable(pendingRecorder).toBe('A-B---(C|)', {
+      A: ['0', '1'],
+      B: ['0'],
+      C: [],
+    });
+  });
+
+  it('should error with pending gating observables on timeout', () => {
+    const x = cold('-x-y-----z|');
+    const config = cold('-------a|');
+    const auth = cold('--------c|');
+    const o = x.pipe(waitUntil({config, auth, init: cold('b|')}, {
+      timeout: time('-----|'),
+      scheduler: getTestScheduler(),
+    }));
+    const e = cold('-----#', undefined, new Error('waitUntil timed out, waiting on: config, auth'));
+    expect(o).toBeObservable(e);
+    expect(config).toHaveSubscriptions('^----!');
+    expect(x).toHaveSubscriptions('^----!');
+  });
+
+  it('should switch to the fallback on timeout', () => {
+    const x = cold('-x-y-----z|');
+    const a = cold('-------a|');
+    const fallback = cold('f|');
+    const o = x.pipe(waitUntil([a], {
+      timeout: time('-----|'),
+      scheduler: getTestScheduler(),
+      fallback,
+    }));
+    expect(o).toBeObservable(cold('-----f|'));
+  });
+
+  it('should time out even if a gating observable completed without emitting', () => {
+    const x = cold('-x-y-----z|');
+    const a = cold('--|');
+    const fallback = cold('f|');
+    const scheduler = getTestScheduler();
+    const timeout = time('-----|');
+    scheduler.expectObservable(x.pipe(waitUntil({a}, {timeout, scheduler})))
+        .toBe('-----#', undefined, new Error('waitUntil timed out, waiting on: a'));
+    scheduler.expectObservable(x.pipe(waitUntil({a}, {timeout, scheduler, fallback})))
+        .toBe('-----f|');
+  });
+
+  it('should complete the pending report on timeout, gate error and overflow error', () => {
+    const scheduler = getTestScheduler();
+    const recorders = [0, 1, 2].map(() => new ReplaySubject<string[]>(undefined, undefined, scheduler));
+    const x = cold('-x-y-----z|');
+    const a = cold('-------a|');
+    scheduler.expectObservable(x.pipe(waitUntil({a}, {timeout: time('-----|'), scheduler, pending: recorders[0]})))
+        .toBe('-----#', undefined, new Error('waitUntil timed out, waiting on: a'));
+    scheduler.expectObservable(x.pipe(waitUntil({a, b: cold('--#')}, {pending: recorders[1]})))
+        .toBe('--#');
+    scheduler.expectObservable(x.pipe(waitUntil({a}, {mode: 'buffer', bufferSize: 1, overflow: 'error', pending: recorders[2]})))
+        .toBe('---#', undefined, new Error('waitUntil buffer overflow'));
+    scheduler.expectObservable(recorders[0]).toBe('A----|', {A: ['a']});
+    scheduler.expectObservable(recorders[1]).toBe('A-|', {A: ['a', 'b']});
+    scheduler.expectObservable(recorders[2]).toBe('A--|', {A: ['a']});
+  });
+
+  it('should complete the pending report once, even if it never opens or is unsubscribed', () => {
+    const scheduler = getTestScheduler();
+    const completions = [0, 0, 0];
+    const counter = (index: number) => ({complete: () => completions[index]++});
+    const a = cold('--a|');
+    scheduler.expectObservable(cold('-x---#').pipe(waitUntil({a}, {pending: counter(0)})))
+        .toBe('--x--#');
+    scheduler.expectObservable(cold('-x---|').pipe(waitUntil({a: cold('--|')}, {pending: counter(1)})))
+        .toBe('-----|');
+    scheduler.expectObservable(cold('-x---|').pipe(waitUntil({a: cold('-----a|')}, {pending: counter(2)})), '^--!')
+        .toBe('');
+    scheduler.flush();
+    expect(completions).toEqual([1, 1, 1]);
+  });
+
+  it('should not time out once all gating observables emit', () => {
+    const x = cold('-x-y-----z|');
+    const a = cold('--a|');
+    const o = x.pipe(waitUntil([a], {timeout: time('-----|'), scheduler: getTestScheduler()}));
+    expect(o).toBeObservable(cold('--xy-----z|'));
+  });
+
+  it('should support policies for gating observables completing without emitting', () => {
+    const x = cold('-x-y-----z|');
+    const a = cold('--a|       ');
+    const b = cold('----|      ');
+    const neverOpen = '----------|';
+    const ignore = '----y----z|';
+    const error = '----#      ';
+    getTestScheduler().expectObservable(x.pipe(waitUntil({a, b}, {onEmptyGate: 'never-open'})))
+        .toBe(neverOpen);
+    getTestScheduler().expectObservable(x.pipe(waitUntil({a, b}, {onEmptyGate: 'ignore'})))
+        .toBe(ignore);
+    getTestScheduler().expectObservable(x.pipe(waitUntil({a, b}, {onEmptyGate: 'error'})))
+        .toBe(error, undefined, new Error('waitUntil gate completed without emitting: b'));
+  });
 });
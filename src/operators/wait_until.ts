@@ -1,17 +1,237 @@
-import {combineLatest, MonoTypeOperatorFunction, Observable} from 'rxjs';
+import {
+  asyncScheduler,
+  combineLatest,
+  isObservable,
+  MonoTypeOperatorFunction,
+  Observable,
+  PartialObserver,
+  SchedulerLike,
+  Subscription,
+} from 'rxjs';
 import {map, take} from 'rxjs/operators';
 
 
+/** What to do with a value emitted when the waitUntil() buffer is full. */
+export type WaitUntilOverflow = 'drop-oldest'|'drop-newest'|'error';
+
+/** Gating observables keyed by name. */
+export interface NamedGates {
+  [name: string]: Observable<unknown>;
+}
+
+/** Options for waitUntil(). */
+export interface WaitUntilOptions<T = unknown> {
+  /**
+   * With 'latest' (default), only the last value emitted before all gating
+   * observables emit is kept. With 'buffer', all of them are kept and flushed
+   * in order.
+   */
+  mode?: 'latest'|'buffer';
+  /** Maximum number of values kept in 'buffer' mode. Default: Infinity. */
+  bufferSize?: number;
+  /** Policy when the buffer is full. Default: 'drop-oldest'. */
+  overflow?: WaitUntilOverflow;
+  /**
+   * Maximum time to wait for all gating observables to emit. When it passes,
+   * the stream switches to fallback, or errors if there is no fallback.
+   */
+  timeout?: number;
+  fallback?: Observable<T>;
+  /** Scheduler for the timeout. Default: asyncScheduler. */
+  scheduler?: SchedulerLike;
+  /**
+   * What to do when a gating observable completes without emitting. With
+   * 'never-open' (default), like combineLatest(), nothing is emitted until
+   * the input completes. With 'error', the stream errors. With 'ignore', the
+   * gating observable is no longer waited for.
+   */
+  onEmptyGate?: 'never-open'|'error'|'ignore';
+  /**
+   * Receives the names of the gating observables still pending: at
+   * subscription time and each time one of them emits. It completes once,
+   * when all of them have emitted, when they never will, or when the stream
+   * ends or is unsubscribed. Unnamed gating observables are named by index.
+   *
+   * This is an observer rather than an observable because the report belongs
+   * to a subscription, not to the operator: pass e.g. a Subject per
+   * subscription, inside defer(), and expose its asObservable() as the side
+   * channel.
+   */
+  pending?: PartialObserver<string[]>;
+}
+
 /**
  * Waits until each input observable emits at least one. This is different from
  * skipUntil().
  */
 export function waitUntil<T>(...observables: Array<Observable<unknown>>):
+    MonoTypeOperatorFunction<T>;
+export function waitUntil<T>(
+    observables: Array<Observable<unknown>>,
+    options: WaitUntilOptions<T>): MonoTypeOperatorFunction<T>;
+export function waitUntil<T>(
+    gates: NamedGates,
+    options?: WaitUntilOptions<T>): MonoTypeOperatorFunction<T>;
+export function waitUntil<T>(
+    ...args: Array<Observable<unknown>|Array<Observable<unknown>>|NamedGates|
+                   WaitUntilOptions<T>|undefined>):
     MonoTypeOperatorFunction<T> {
-  return input$ => combineLatest([
-    input$,
-    ...observables.map(o => o.pipe(take(1))),
-  ]).pipe(
-      map(([value]) => value as T),
-  );
+  if (args.length === 0 || isObservable(args[0])) {
+    const observables = args as Array<Observable<unknown>>;
+    return input$ => combineLatest([
+      input$,
+      ...observables.map(o => o.pipe(take(1))),
+    ]).pipe(
+        map(([value]) => value as T),
+    );
+  }
+  const gates = args[0] as NamedGates;
+  const options = (args[1] || {}) as WaitUntilOptions<T>;
+  return gateUntil(
+      Object.keys(gates).map(name => [name, gates[name]]), options);
+}
+
+function gateUntil<T>(
+    gates: Array<[string, Observable<unknown>]>,
+    options: WaitUntilOptions<T>): MonoTypeOperatorFunction<T> {
+  const {
+    mode = 'latest',
+    overflow = 'drop-oldest',
+    timeout,
+    fallback,
+    scheduler = asyncScheduler,
+    onEmptyGate = 'never-open',
+    pending: pendingObserver,
+  } = options;
+  // The 'latest' mode is a buffer that keeps only the last value.
+  const bufferSize = mode === 'latest' ? 1 :
+      options.bufferSize === undefined ? Infinity : options.bufferSize;
+  const bufferOverflow = mode === 'latest' ? 'drop-oldest' : overflow;
+
+  return input$ => new Observable<T>(subscriber => {
+    // Values emitted before the gates open.
+    const buffer: T[] = [];
+    const pending = new Set(gates.map(([name]) => name));
+    let state: 'waiting'|'open'|'never-open' = 'waiting';
+    let inputCompleted = false;
+    let pendingDone = false;
+    const subscription = new Subscription();
+    const sources = new Subscription();
+    subscription.add(sources);
+
+    const enqueue = (value: T) => {
+      if (buffer.length < bufferSize) {
+        buffer.push(value);
+      } else if (bufferOverflow === 'drop-oldest') {
+        buffer.shift();
+        buffer.push(value);
+      } else if (bufferOverflow === 'error') {
+        fail(new Error('waitUntil buffer overflow'));
+      }
+    };
+    const reportPending = () => {
+      if (pendingObserver && pendingObserver.next) {
+        pendingObserver.next([...pending]);
+      }
+    };
+    const completePending = () => {
+      if (pendingDone) {
+        return;
+      }
+      pendingDone = true;
+      if (pendingObserver && pendingObserver.complete) {
+        pendingObserver.complete();
+      }
+    };
+    const fail = (err: unknown) => {
+      completePending();
+      subscriber.error(err);
+    };
+    const open = () => {
+      state = 'open';
+      completePending();
+      for (const value of buffer.splice(0)) {
+        subscriber.next(value);
+      }
+      if (inputCompleted) {
+        subscriber.complete();
+      }
+    };
+    const release = (name: string) => {
+      pending.delete(name);
+      reportPending();
+      if (pending.size === 0 && state === 'waiting') {
+        open();
+      }
+    };
+    const neverOpen = () => {
+      state = 'never-open';
+      completePending();
+      buffer.length = 0;
+      if (inputCompleted) {
+        subscriber.complete();
+      }
+    };
+
+    sources.add(input$.subscribe(
+        value => {
+          if (state === 'open') {
+            subscriber.next(value);
+          } else if (state === 'waiting') {
+            enqueue(value);
+          }
+        },
+        err => fail(err),
+        () => {
+          inputCompleted = true;
+          if (state !== 'waiting') {
+            subscriber.complete();
+          }
+        },
+    ));
+
+    reportPending();
+    if (gates.length === 0) {
+      open();
+    }
+    for (const [name, gate$] of gates) {
+      sources.add(gate$.pipe(take(1)).subscribe(
+          () => release(name),
+          err => fail(err),
+          () => {
+            if (!pending.has(name) || state !== 'waiting') {
+              return;
+            }
+            if (onEmptyGate === 'ignore') {
+              release(name);
+            } else if (onEmptyGate === 'error') {
+              fail(new Error(
+                  `waitUntil gate completed without emitting: ${name}`));
+            } else {
+              neverOpen();
+            }
+          },
+      ));
+    }
+
+    if (timeout !== undefined) {
+      subscription.add(scheduler.schedule(() => {
+        // A gate that never opens times out too.
+        if (state === 'open') {
+          return;
+        }
+        sources.unsubscribe();
+        if (fallback) {
+          completePending();
+          subscription.add(fallback.subscribe(subscriber));
+        } else {
+          fail(new Error(
+              `waitUntil timed out, waiting on: ${[...pending].join(', ')}`));
+        }
+      }, timeout));
+    }
+    // Unsubscribing ends the report too.
+    subscription.add(completePending);
+    return subscription;
+  });
 }
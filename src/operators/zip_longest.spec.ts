@@ -0,0 +1,76 @@
+import {cold} from 'jasmine-marbles';
+import {map} from 'rxjs/operators';
+import {zipLongest, zipWithLeftovers} from './zip_longest';
+
+
+describe('Custom creator zipLongest()', () => {
+  it('should match each element and keep emitting after one flow completes', () => {
+    const x = cold('-x-y-z-|');
+    const y = cold('--a-b|  ');
+    const o = zipLongest([x, y]);
+    const e = cold('--A-BC-|', {
+      A: ['x', 'a'],
+      B: ['y', 'b'],
+      C: ['z', undefined],
+    });
+    const xSubs = ['^------!']; // x is not unsubscribed early
+    const ySubs = ['^----!  '];
+    expect(o).toBeObservable(e);
+    expect(x).toHaveSubscriptions(xSubs);
+    expect(y).toHaveSubscriptions(ySubs);
+  });
+
+  it('should not terminate until all values are emitted, with the fill value', () => {
+    const x = cold('----------x-y-z-|       ');
+    const y = cold('--abcdef|               ');
+    const o = zipLongest([x, y], {fill: '_'}).pipe(map(([x, y]) => `${x}${y}`));
+    const e = cold('----------A-B-C-(DEF|)', {
+      A: 'xa',
+      B: 'yb',
+      C: 'zc',
+      D: '_d',
+      E: '_e',
+      F: '_f',
+    });
+    expect(o).toBeObservable(e);
+  });
+
+  it('should throw error if one throws error', () => {
+    const x = cold('-x-y-#');
+    const y = cold('--a|  ');
+    const e = cold('--AB-#', {A: ['x', 'a'], B: ['y', undefined]});
+    expect(zipLongest([x, y])).toBeObservable(e);
+  });
+});
+
+describe('Custom creator zipWithLeftovers()', () => {
+  it('should report the unmatched values of each flow before completing', () => {
+    const x = cold('-x-y-z-|');
+    const y = cold('--a-b|  ');
+    const o = zipWithLeftovers([x, y]);
+    // z is emitted in the frame y completes, but before it
+    const e = cold('--A-B(L|)', {
+      A: {kind: 'match', values: ['x', 'a']},
+      B: {kind: 'match', values: ['y', 'b']},
+      L: {kind: 'leftovers', leftovers: [['z'], []]},
+    });
+    expect(o).toBeObservable(e);
+  });
+
+  it('should not terminate until all possible matches are emitted, then report the rest', () => {
+    const x = cold('----------x-y-z-|');
+    const y = cold('--abcdef|        ');
+    const o = zipWithLeftovers([x, y]);
+    const e = cold('----------A-B-C-(L|)', {
+      A: {kind: 'match', values: ['x', 'a']},
+      B: {kind: 'match', values: ['y', 'b']},
+      C: {kind: 'match', values: ['z', 'c']},
+      L: {kind: 'leftovers', leftovers: [[], ['d', 'e', 'f']]},
+    });
+    const xSubs = ['^---------------!'];
+    const ySubs = ['^-------!        '];
+    expect(o).toBeObservable(e);
+    expect(x).toHaveSubscriptions(xSubs);
+    expect(y).toHaveSubscriptions(ySubs);
+  });
+});
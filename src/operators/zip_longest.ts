@@ -0,0 +1,118 @@
+import {Observable, ObservedValueOf, Subscriber, Subscription} from 'rxjs';
+import {ObservedValuesOf} from './combine_latest_object';
+
+
+/** Observables to zip, e.g. [Observable<A>, Observable<B>]. */
+export type ObservableTuple = Array<Observable<unknown>>|[];
+
+/** The values of the observables of a tuple, or the fill value. */
+export type FilledValuesOf<S, F> = {
+  [K in keyof S]: ObservedValueOf<S[K]>|F;
+};
+
+/** Options for zipLongest(). */
+export interface ZipLongestOptions<F> {
+  /** Value in place of a source that completed. Default: undefined. */
+  fill?: F;
+}
+
+/**
+ * Emitted by zipWithLeftovers(): values matched like zip(), then the values
+ * left unmatched by each source when it completes.
+ */
+export type ZipEvent<T> = {kind: 'match', values: T}|
+    {kind: 'leftovers', leftovers: {[K in keyof T]: Array<T[K]>}};
+
+/** Emits from the buffered values of the sources, each time one changes. */
+type Drain<R> = (
+    buffers: unknown[][], completed: boolean[], subscriber: Subscriber<R>) =>
+    void;
+
+/**
+ * Returns values taken from the buffers, by index of the sources, as a tuple
+ * type mapped from the sources, e.g. [A, B] for [Observable<A>,
+ * Observable<B>]. It is the only place where the values are cast.
+ */
+function asTuple<V>(values: unknown[]): V {
+  return values as unknown[] & V;
+}
+
+function zipBuffered<R>(
+    sources: Array<Observable<unknown>>, drain: Drain<R>): Observable<R> {
+  return new Observable<R>(subscriber => {
+    const buffers: unknown[][] = sources.map(() => []);
+    const completed = sources.map(() => false);
+    const subscription = new Subscription();
+    sources.forEach((source$, index) => {
+      subscription.add(source$.subscribe(
+          value => {
+            buffers[index].push(value);
+            drain(buffers, completed, subscriber);
+          },
+          err => subscriber.error(err),
+          () => {
+            completed[index] = true;
+            drain(buffers, completed, subscriber);
+          },
+      ));
+    });
+    if (sources.length === 0) {
+      subscriber.complete();
+    }
+    return subscription;
+  });
+}
+
+/**
+ * Like zip(), but keeps emitting after a source completes, with the fill
+ * value in its place, until every source completes and every value is
+ * emitted.
+ */
+export function zipLongest<S extends ObservableTuple, F = undefined>(
+    sources: S,
+    {fill}: ZipLongestOptions<F> = {}): Observable<FilledValuesOf<S, F>> {
+  return zipBuffered<FilledValuesOf<S, F>>(
+      sources,
+      (buffers, completed, subscriber) => {
+        const exhausted = (index: number) =>
+            completed[index] && buffers[index].length === 0;
+        const ready = (index: number) =>
+            buffers[index].length > 0 || exhausted(index);
+        while (buffers.some(buffer => buffer.length > 0) &&
+               buffers.every((_, i) => ready(i))) {
+          subscriber.next(asTuple<FilledValuesOf<S, F>>(
+              buffers.map(buffer => buffer.length > 0 ? buffer.shift() : fill)));
+        }
+        if (completed.every((_, i) => exhausted(i))) {
+          subscriber.complete();
+        }
+      });
+}
+
+/**
+ * Like zip(), but before completing, emits the values that each source
+ * emitted without a match, which zip() silently discards.
+ */
+export function zipWithLeftovers<S extends ObservableTuple>(sources: S):
+    Observable<ZipEvent<ObservedValuesOf<S>>> {
+  type T = ObservedValuesOf<S>;
+  return zipBuffered<ZipEvent<T>>(
+      sources,
+      (buffers, completed, subscriber) => {
+        while (buffers.every(buffer => buffer.length > 0)) {
+          subscriber.next({
+            kind: 'match',
+            values: asTuple<T>(buffers.map(buffer => buffer.shift())),
+          });
+        }
+        // Like zip(), no match is possible once a completed source is empty
+        if (completed.some((done, i) => done && buffers[i].length === 0)) {
+          subscriber.next({
+            kind: 'leftovers',
+            leftovers: asTuple<{[K in keyof T]: Array<T[K]>}>(
+                buffers.map(buffer => [...buffer])),
+          });
+          subscriber.complete();
+        }
+      });
+}
@@ -0,0 +1,57 @@
+import {cold, getTestScheduler, hot} from 'jasmine-marbles';
+import {Subject} from 'rxjs';
+import {map, take} from 'rxjs/operators';
+import {SubscriptionLeakDetector} from './subscription_leaks';
+
+
+describe('SubscriptionLeakDetector', () => {
+  const detector = new SubscriptionLeakDetector();
+
+  beforeEach(() => detector.install());
+  afterEach(() => detector.uninstall());
+
+  it('should report the sources still subscribed after flush', () => {
+    const stopped = cold('a-b-c-');
+    const leaked = cold('a-b-c-');
+    getTestScheduler().expectObservable(stopped.pipe(take(2))).toBe('a-(b|)');
+    getTestScheduler().expectObservable(leaked.pipe(map(v => v))).toBe('a-b-c-');
+    getTestScheduler().flush();
+    expect(detector.isLeaking(stopped)).toBe(false);
+    expect(detector.isLeaking(leaked)).toBe(true);
+    const leaks = detector.findLeaks();
+    expect(leaks.length).toBe(1);
+    expect(leaks[0].stack).toContain('subscription_leaks.spec');
+  });
+
+  it('should not report completed sources', () => {
+    const completed = cold('a-b-|');
+    getTestScheduler().expectObservable(completed).toBe('a-b-|');
+    getTestScheduler().flush();
+    expect(detector.findLeaks()).toEqual([]);
+  });
+
+  it('should not report allowed sources', () => {
+    const subject = new Subject<string>();
+    const store = hot('a-b-c-');
+    const state$ = store.pipe(map(v => v.toUpperCase()));
+    detector.allow(subject, state$);
+    subject.subscribe(value => value);
+    getTestScheduler().expectObservable(state$).toBe('A-B-C-');
+    getTestScheduler().flush();
+    expect(detector.findLeaks()).toEqual([]);
+  });
+
+  it('should forget the recorded subscriptions on reset()', () => {
+    new Subject<string>().subscribe(value => value);
+    expect(detector.findLeaks().length).toBe(1);
+    detector.reset();
+    expect(detector.findLeaks()).toEqual([]);
+  });
+
+  it('should stop recording on uninstall()', () => {
+    detector.uninstall();
+    new Subject<string>().subscribe(value => value);
+    detector.install();
+    expect(detector.findLeaks()).toEqual([]);
+  });
+});
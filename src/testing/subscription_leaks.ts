@@ -0,0 +1,144 @@
+import {getTestScheduler} from 'jasmine-marbles';
+import {Observable, Subscription} from 'rxjs';
+
+
+/** A subscription to a source observable made while detecting leaks. */
+export interface SubscriptionRecord {
+  /** The source, e.g. the ColdObservable behind cold(). */
+  observable: Observable<unknown>;
+  subscription: Subscription;
+  /** Stack trace of the subscribe() call. */
+  stack: string;
+}
+
+/** Observable fields that are deprecated for public use. */
+interface Lifted {
+  source?: Observable<unknown>;
+}
+
+type Subscribe = (this: Observable<unknown>, ...args: unknown[]) => Subscription;
+
+/** Observable.prototype without the deprecated subscribe() overloads. */
+interface Subscribable {
+  subscribe: Subscribe;
+}
+
+/** Number of stack frames kept in the report of a leak. */
+const STACK_DEPTH = 5;
+
+const prototype = Observable.prototype as unknown as Subscribable;
+
+/** Returns the source an observable is built from with operators. */
+function sourceOf(observable: Observable<unknown>): Observable<unknown> {
+  let source = observable;
+  while ((source as Lifted).source) {
+    source = (source as Lifted).source!;
+  }
+  return source;
+}
+
+/** Returns the stack trace of subscribe(), without rxjs and this file. */
+function captureStack(): string {
+  // Subscriptions made during flush() are deep below the calling spec
+  const stackTraceLimit = Error.stackTraceLimit;
+  Error.stackTraceLimit = Infinity;
+  const stack = new Error().stack || '';
+  Error.stackTraceLimit = stackTraceLimit;
+  // Skips the message, then the first frame is in this file
+  const [ownFrame, ...frames] = stack.split('\n').slice(1);
+  const ownFile = (/\(?([^\s(]+):\d+:\d+\)?$/.exec(ownFrame) || [])[1];
+  return frames
+      .filter(frame => !frame.includes('node_modules') &&
+                  !(ownFile && frame.includes(ownFile)))
+      .slice(0, STACK_DEPTH)
+      .join('\n');
+}
+
+function describeLeak({stack}: SubscriptionRecord): string {
+  return `Subscription still open after flush, subscribed at:\n${stack}`;
+}
+
+/**
+ * Records the subscriptions to source observables by instrumenting
+ * Observable.prototype.subscribe(). Operators are not recorded: a leaking
+ * operator chain always leaks the subscription to its source.
+ */
+export class SubscriptionLeakDetector {
+  private readonly records: SubscriptionRecord[] = [];
+  private readonly allowed = new Set<Observable<unknown>>();
+  private originalSubscribe?: Subscribe;
+
+  /** Starts recording. */
+  install(): void {
+    if (this.originalSubscribe) {
+      return;
+    }
+    const original = prototype.subscribe;
+    const records = this.records;
+    prototype.subscribe = function(...args) {
+      const subscription = original.apply(this, args);
+      if (sourceOf(this) === this) {
+        records.push({observable: this, subscription, stack: captureStack()});
+      }
+      return subscription;
+    };
+    this.originalSubscribe = original;
+  }
+
+  /** Stops recording and forgets the recorded and allowed subscriptions. */
+  uninstall(): void {
+    if (this.originalSubscribe) {
+      prototype.subscribe = this.originalSubscribe;
+      this.originalSubscribe = undefined;
+    }
+    this.reset();
+    this.allowed.clear();
+  }
+
+  /**
+   * Allows the sources of the observables to stay subscribed, e.g.
+   * intentionally hot sources that never complete.
+   */
+  allow(...observables: Array<Observable<unknown>>): void {
+    for (const observable of observables) {
+      this.allowed.add(sourceOf(observable));
+    }
+  }
+
+  /** Returns the recorded subscriptions still open, except the allowed ones. */
+  findLeaks(): SubscriptionRecord[] {
+    return this.records.filter(
+        ({observable, subscription}) =>
+            !subscription.closed && !this.allowed.has(observable));
+  }
+
+  /** Whether the source of the observable is among the leaks. */
+  isLeaking(observable: Observable<unknown>): boolean {
+    const source = sourceOf(observable);
+    return this.findLeaks().some(leak => leak.observable === source);
+  }
+
+  /** Forgets the recorded subscriptions, e.g. after asserting on leaks. */
+  reset(): void {
+    this.records.splice(0);
+  }
+}
+
+/**
+ * Fails every spec of the current describe() that leaves a subscription to a
+ * source observable open once the TestScheduler has flushed. Returns the
+ * detector, e.g. to allow hot sources in a spec.
+ */
+export function detectSubscriptionLeaks(): SubscriptionLeakDetector {
+  const detector = new SubscriptionLeakDetector();
+  beforeEach(() => detector.install());
+  afterEach(() => {
+    getTestScheduler().flush();
+    const leaks = detector.findLeaks();
+    detector.uninstall();
+    for (const leak of leaks) {
+      fail(describeLeak(leak));
+    }
+  });
+  return detector;
+}
@@ -0,0 +1,81 @@
+import {cold, getTestScheduler} from 'jasmine-marbles';
+import {defer, from} from 'rxjs';
+import {catchError, switchMap} from 'rxjs/operators';
+import {rejectedAt, resolvedAt, VirtualPromise} from './virtual_promise';
+
+
+describe('VirtualPromise', () => {
+  it('should run callbacks on flush(), not synchronously', () => {
+    const values: number[] = [];
+    VirtualPromise.resolve(1).then(v => values.push(v));
+    expect(values).toEqual([]);
+    getTestScheduler().flush();
+    expect(values).toEqual([1]);
+  });
+
+  it('should chain like a Promise', () => {
+    const values: unknown[] = [];
+    VirtualPromise.resolve(1)
+        .then(v => VirtualPromise.resolve(v + 1))
+        .then(v => {
+          throw new Error(`failed at ${v}`);
+        })
+        .catch(err => (err as Error).message)
+        .then(v => values.push(v));
+    getTestScheduler().flush();
+    expect(values).toEqual(['failed at 2']);
+  });
+
+  it('should reject when the executor throws', () => {
+    const error = new Error('failed');
+    const reasons: unknown[] = [];
+    new VirtualPromise(() => {
+      throw error;
+    }).then(undefined, reason => reasons.push(reason));
+    getTestScheduler().flush();
+    expect(reasons).toEqual([error]);
+  });
+
+  it('should emit from() in the frame it resolves', () => {
+    const o = defer(() => from(VirtualPromise.resolve('v')));
+    expect(o).toBeObservable(cold('(v|)'));
+  });
+});
+
+describe('resolvedAt()', () => {
+  it('should resolve at the frame of the value', () => {
+    const o = defer(() => from(resolvedAt('--v')));
+    expect(o).toBeObservable(cold('--(v|)'));
+  });
+
+  it('should resolve with the values of the marbles', () => {
+    const o = cold('-x---y|').pipe(
+        switchMap(x => resolvedAt('--a', {a: x.toUpperCase()})));
+    expect(o).toBeObservable(cold('---X---(Y|)'));
+  });
+
+  it('should resolve with undefined at a completion', () => {
+    const o = defer(() => from(resolvedAt('-|')));
+    expect(o).toBeObservable(cold('-(u|)', {u: undefined}));
+  });
+
+  it('should throw without a value', () => {
+    expect(() => resolvedAt('--#'))
+        .toThrowError(`resolvedAt cannot settle with '--#'`);
+    expect(() => resolvedAt('---'))
+        .toThrowError(`resolvedAt found no event in '---'`);
+  });
+});
+
+describe('rejectedAt()', () => {
+  it('should reject at the frame of the error', () => {
+    const o = defer(() => from(rejectedAt('---#')));
+    expect(o).toBeObservable(cold('---#'));
+  });
+
+  it('should reject with the given error', () => {
+    const o = defer(() => from(rejectedAt('-#', 'timeout')))
+        .pipe(catchError(err => cold('-(e|)', {e: err})));
+    expect(o).toBeObservable(cold('--(e|)', {e: 'timeout'}));
+  });
+});
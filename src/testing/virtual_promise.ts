@@ -0,0 +1,165 @@
+import {getTestScheduler} from 'jasmine-marbles';
+import {SchedulerLike} from 'rxjs';
+import {TestScheduler} from 'rxjs/testing';
+
+
+type Settlement<T> =
+    {fulfilled: true, value: T}|{fulfilled: false, reason: unknown};
+
+function isThenable<T>(value: T|PromiseLike<T>): value is PromiseLike<T> {
+  return value !== null &&
+      (typeof value === 'object' || typeof value === 'function') &&
+      typeof (value as PromiseLike<T>).then === 'function';
+}
+
+/**
+ * A Promise whose callbacks run as actions of a scheduler instead of
+ * microtasks, so that from() and other Promise-backed observables emit during
+ * flush() of the TestScheduler. Like microtasks, the callbacks run after the
+ * current action, in the same frame.
+ */
+export class VirtualPromise<T> implements PromiseLike<T> {
+  private settlement?: Settlement<T>;
+  private readonly reactions: Array<(settlement: Settlement<T>) => void> = [];
+
+  constructor(
+      executor: (
+          resolve: (value: T|PromiseLike<T>) => void,
+          reject: (reason?: unknown) => void) => void,
+      private readonly scheduler: SchedulerLike = getTestScheduler()) {
+    let done = false;
+    const resolve = (value: T|PromiseLike<T>) => {
+      if (!done) {
+        done = true;
+        this.adopt(value);
+      }
+    };
+    const reject = (reason?: unknown) => {
+      if (!done) {
+        done = true;
+        this.settle({fulfilled: false, reason});
+      }
+    };
+    try {
+      executor(resolve, reject);
+    } catch (err) {
+      reject(err);
+    }
+  }
+
+  /** Returns a promise resolved with the value on the next action. */
+  static resolve<T>(value: T|PromiseLike<T>, scheduler?: SchedulerLike):
+      VirtualPromise<T> {
+    return new VirtualPromise<T>(resolve => resolve(value), scheduler);
+  }
+
+  /** Returns a promise rejected with the reason on the next action. */
+  static reject<T = never>(reason?: unknown, scheduler?: SchedulerLike):
+      VirtualPromise<T> {
+    return new VirtualPromise<T>((_, reject) => reject(reason), scheduler);
+  }
+
+  then<R1 = T, R2 = never>(
+      onfulfilled?: ((value: T) => R1 | PromiseLike<R1>)|null,
+      onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>)|null):
+      VirtualPromise<R1|R2> {
+    return new VirtualPromise<R1|R2>((resolve, reject) => {
+      this.react(settlement => {
+        try {
+          if (settlement.fulfilled) {
+            resolve(onfulfilled ? onfulfilled(settlement.value) :
+                                  settlement.value as unknown as R1);
+          } else if (onrejected) {
+            resolve(onrejected(settlement.reason));
+          } else {
+            reject(settlement.reason);
+          }
+        } catch (err) {
+          reject(err);
+        }
+      });
+    }, this.scheduler);
+  }
+
+  catch<R = never>(onrejected?: ((reason: unknown) => R | PromiseLike<R>)|null):
+      VirtualPromise<T|R> {
+    return this.then(undefined, onrejected);
+  }
+
+  private adopt(value: T|PromiseLike<T>) {
+    if (isThenable(value)) {
+      value.then(
+          v => this.settle({fulfilled: true, value: v}),
+          reason => this.settle({fulfilled: false, reason}));
+    } else {
+      this.settle({fulfilled: true, value});
+    }
+  }
+
+  private settle(settlement: Settlement<T>) {
+    this.settlement = settlement;
+    for (const reaction of this.reactions.splice(0)) {
+      this.schedule(reaction);
+    }
+  }
+
+  private react(reaction: (settlement: Settlement<T>) => void) {
+    if (this.settlement) {
+      this.schedule(reaction);
+    } else {
+      this.reactions.push(reaction);
+    }
+  }
+
+  private schedule(reaction: (settlement: Settlement<T>) => void) {
+    const settlement = this.settlement!;
+    this.scheduler.schedule(() => reaction(settlement));
+  }
+}
+
+/**
+ * Returns a promise settled at the frame of the first event of the marbles,
+ * counted from now.
+ */
+function settledAt<T>(
+    name: string, marbles: string, values?: {[key: string]: T},
+    error?: unknown): VirtualPromise<T> {
+  const scheduler = getTestScheduler();
+  const [first] =
+      TestScheduler.parseMarbles(marbles, values, error, false, true);
+  if (!first) {
+    throw new Error(`${name} found no event in '${marbles}'`);
+  }
+  const {frame, notification} = first;
+  if ((name === 'rejectedAt') !== (notification.kind === 'E')) {
+    throw new Error(`${name} cannot settle with '${marbles}'`);
+  }
+  return new VirtualPromise<T>((resolve, reject) => {
+    scheduler.schedule(() => {
+      if (notification.kind === 'E') {
+        reject(notification.error);
+      } else {
+        resolve(notification.value);
+      }
+    }, frame);
+  }, scheduler);
+}
+
+/**
+ * Returns a promise that resolves at the frame of the first value of the
+ * marbles, e.g. resolvedAt('--v') resolves with 'v' two frames from now, or
+ * with undefined at a completion, e.g. resolvedAt('--|').
+ */
+export function resolvedAt<T = string>(
+    marbles: string, values?: {[key: string]: T}): VirtualPromise<T> {
+  return settledAt('resolvedAt', marbles, values);
+}
+
+/**
+ * Returns a promise that rejects at the frame of the error of the marbles,
+ * e.g. rejectedAt('---#') rejects with 'error' three frames from now.
+ */
+export function rejectedAt<T = never>(
+    marbles: string, error?: unknown): VirtualPromise<T> {
+  return settledAt<T>('rejectedAt', marbles, undefined, error);
+}
@@ -0,0 +1,255 @@
+/**
+ * Finds pipe() calls where takeUntil() is followed by an operator that
+ * subscribes to other streams, which takeUntil() then fails to stop (see the
+ * takeUntil() tests in src/observables/applications.spec.ts).
+ *
+ * Usage: check_take_until [--fix] [file or directory...]
+ *
+ * Without paths, src is checked. With --fix, takeUntil() is moved to the end
+ * of the pipe(). A line containing `take-until-ok` is not reported.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+const IGNORE_MARKER = 'take-until-ok';
+const projectDir = path.resolve(__dirname, '..', '..', '..');
+
+/** Operators that subscribe to streams other than their source. */
+const UNSAFE_OPERATORS = new Set([
+  'switchMap',
+  'mergeMap',
+  'concatMap',
+  'exhaustMap',
+  'combineLatest',
+  'withLatestFrom',
+]);
+
+interface Finding {
+  sourceFile: ts.SourceFile;
+  args: ts.NodeArray<ts.Expression>;
+  takeUntilIndex: number;
+  /** What follows takeUntil(), e.g. 'switchMap()'. */
+  unsafe: string;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function operatorName(arg: ts.Expression): string|undefined {
+  if (!ts.isCallExpression(arg)) {
+    return undefined;
+  }
+  if (ts.isIdentifier(arg.expression)) {
+    return arg.expression.text;
+  }
+  if (ts.isPropertyAccessExpression(arg.expression)) {
+    return arg.expression.name.text;
+  }
+  return undefined;
+}
+
+function isPipeCall(node: ts.CallExpression): boolean {
+  const callee = node.expression;
+  return (ts.isIdentifier(callee) && callee.text === 'pipe') ||
+      (ts.isPropertyAccessExpression(callee) && callee.name.text === 'pipe');
+}
+
+/** Describes an operator that takeUntil() must not precede, if arg is one. */
+function describeUnsafe(arg: ts.Expression): string|undefined {
+  if (ts.isArrowFunction(arg) || ts.isFunctionExpression(arg)) {
+    return 'a stream-to-stream function';
+  }
+  const name = operatorName(arg);
+  return name && UNSAFE_OPERATORS.has(name) ? `${name}()` : undefined;
+}
+
+function lineOf(sourceFile: ts.SourceFile, position: number): number {
+  return sourceFile.getLineAndCharacterOfPosition(position).line;
+}
+
+function isIgnored(sourceFile: ts.SourceFile, node: ts.Node): boolean {
+  const line = lineOf(sourceFile, node.getStart(sourceFile));
+  const lineStart = sourceFile.getPositionOfLineAndCharacter(line, 0);
+  const lineEnd = sourceFile.getLineEndOfPosition(lineStart);
+  return sourceFile.text.slice(lineStart, lineEnd).includes(IGNORE_MARKER);
+}
+
+function findMisplacedTakeUntil(sourceFile: ts.SourceFile): Finding[] {
+  const findings: Finding[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && isPipeCall(node)) {
+      const args = node.arguments;
+      const takeUntilIndex =
+          args.findIndex(arg => operatorName(arg) === 'takeUntil');
+      if (takeUntilIndex >= 0 &&
+          !isIgnored(sourceFile, args[takeUntilIndex])) {
+        const unsafe = args.slice(takeUntilIndex + 1)
+            .map(describeUnsafe)
+            .find(description => description !== undefined);
+        if (unsafe) {
+          findings.push({sourceFile, args, takeUntilIndex, unsafe});
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return findings;
+}
+
+/** Returns the position of the line after the comma that follows the node. */
+function startOfLineAfterComma(sourceFile: ts.SourceFile, node: ts.Node) {
+  const comma = sourceFile.text.indexOf(',', node.end);
+  return sourceFile.getLineEndOfPosition(comma) + 1;
+}
+
+/** Returns the edits that move takeUntil() to the end of the pipe(). */
+function moveToEnd({sourceFile, args, takeUntilIndex}: Finding): Edit[] {
+  const takeUntil = args[takeUntilIndex];
+  const next = args[takeUntilIndex + 1];
+  const last = args[args.length - 1];
+  const text = sourceFile.text;
+  const previousEnd =
+      takeUntilIndex > 0 ? args[takeUntilIndex - 1].end : args.pos;
+  const firstLine = lineOf(sourceFile, takeUntil.getStart());
+  const onOwnLines = lineOf(sourceFile, previousEnd) < firstLine &&
+      lineOf(sourceFile, takeUntil.end) < lineOf(sourceFile, next.getStart());
+  if (args.hasTrailingComma && onOwnLines) {
+    // Move whole lines, with the trailing comma and comment of takeUntil().
+    const start = sourceFile.getPositionOfLineAndCharacter(firstLine, 0);
+    const end = startOfLineAfterComma(sourceFile, takeUntil);
+    const insertAt = startOfLineAfterComma(sourceFile, last);
+    return [
+      {start: insertAt, end: insertAt, text: text.slice(start, end)},
+      {start, end, text: ''},
+    ];
+  }
+  if (onOwnLines) {
+    // Without a trailing comma, the last argument gets one instead. The
+    // comment of takeUntil() moves too unless `)` follows the last argument.
+    const start = sourceFile.getPositionOfLineAndCharacter(firstLine, 0);
+    const end = startOfLineAfterComma(sourceFile, takeUntil);
+    const comma = text.indexOf(',', takeUntil.end);
+    const closesLater =
+        lineOf(sourceFile, last.parent.end) > lineOf(sourceFile, last.end);
+    const insertAt =
+        closesLater ? sourceFile.getLineEndOfPosition(last.end) : last.end;
+    const moved = closesLater ?
+        text.slice(start, comma) + text.slice(comma + 1, end - 1) :
+        text.slice(start, takeUntil.end);
+    return [
+      {start: insertAt, end: insertAt, text: `\n${moved}`},
+      {start: last.end, end: last.end, text: ','},
+      {start, end, text: ''},
+    ];
+  }
+  return [
+    {start: last.end, end: last.end, text: `, ${takeUntil.getText()}`},
+    {start: takeUntil.getStart(), end: next.getStart(), text: ''},
+  ];
+}
+
+/**
+ * Applies the fixes of the findings that do not overlap. The others, e.g. a
+ * pipe() containing a fixed one, are left for another pass.
+ */
+function applyFixes(text: string, findings: Finding[]): string {
+  let fixed = text;
+  let fixedFrom = Infinity;
+  const byPositionDesc =
+      [...findings].sort((a, b) => b.args.pos - a.args.pos);
+  for (const finding of byPositionDesc) {
+    const edits = moveToEnd(finding);
+    if (edits[0].end >= fixedFrom) {
+      continue;
+    }
+    for (const {start, end, text} of edits) {
+      fixed = fixed.slice(0, start) + text + fixed.slice(end);
+    }
+    fixedFrom = Math.min(...edits.map(edit => edit.start));
+  }
+  return fixed;
+}
+
+function parse(file: string, text: string): ts.SourceFile {
+  return ts.createSourceFile(file, text, ts.ScriptTarget.Latest, true);
+}
+
+/** Returns the fixed text and the number of fixes. */
+export function fixText(file: string, text: string):
+    {text: string, fixes: number} {
+  let findings = findMisplacedTakeUntil(parse(file, text));
+  const fixes = findings.length;
+  while (findings.length > 0) {
+    text = applyFixes(text, findings);
+    findings = findMisplacedTakeUntil(parse(file, text));
+  }
+  return {text, fixes};
+}
+
+/** Fixes the file in place. Returns the number of fixes. */
+function fixFile(file: string): number {
+  const original = fs.readFileSync(file, 'utf8');
+  const {text, fixes} = fixText(file, original);
+  if (text !== original) {
+    fs.writeFileSync(file, text);
+  }
+  return fixes;
+}
+
+/** Returns a line per problem, starting with the file name as given. */
+export function reportText(file: string, text: string): string[] {
+  const sourceFile = parse(file, text);
+  return findMisplacedTakeUntil(sourceFile).map(finding => {
+    const takeUntil = finding.args[finding.takeUntilIndex];
+    const {line, character} = sourceFile.getLineAndCharacterOfPosition(
+        takeUntil.getStart());
+    return `${file}:${line + 1}:${character + 1}: ` +
+        `takeUntil() before ${finding.unsafe} does not stop it; ` +
+        'move takeUntil() to the end of pipe()';
+  });
+}
+
+function report(file: string): string[] {
+  return reportText(
+      path.relative(process.cwd(), file), fs.readFileSync(file, 'utf8'));
+}
+
+function listFiles(target: string): string[] {
+  if (fs.statSync(target).isFile()) {
+    return [target];
+  }
+  return ts.sys.readDirectory(target, ['.ts'], ['**/node_modules']);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const fix = args.includes('--fix');
+  const targets = args.filter(arg => arg !== '--fix');
+  const files = (targets.length ? targets : [path.join(projectDir, 'src')])
+      .map(target => path.resolve(target))
+      .reduce((all, target) => [...all, ...listFiles(target)], [] as string[]);
+  if (fix) {
+    for (const file of files) {
+      const fixes = fixFile(file);
+      if (fixes > 0) {
+        console.log(`${path.relative(process.cwd(), file)}: ${fixes} fixed`);
+      }
+    }
+  }
+  const problems = files.reduce(
+      (all, file) => [...all, ...report(file)], [] as string[]);
+  for (const problem of problems) {
+    console.error(problem);
+  }
+  console.log(`${files.length} files, ${problems.length} problems`);
+  process.exitCode = problems.length ? 1 : 0;
+}
+
+if (require.main === module) {
+  main();
+}
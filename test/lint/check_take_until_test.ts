@@ -0,0 +1,60 @@
+/**
+ * Checks check_take_until against the fixtures under test/lint/fixtures.
+ *
+ * For a fixture `name.ts`, `name.report.txt` holds the expected problems, one
+ * per line, and `name.fixed.ts` holds the expected text after --fix, which
+ * must not have problems left.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import {fixText, reportText} from './check_take_until';
+
+const projectDir = path.resolve(__dirname, '..', '..', '..');
+const fixturesDir = path.join(projectDir, 'test', 'lint', 'fixtures');
+
+function readIfExists(file: string): string|undefined {
+  return fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : undefined;
+}
+
+function checkFixture(name: string): string[] {
+  const file = `${name}.ts`;
+  const text = fs.readFileSync(path.join(fixturesDir, file), 'utf8');
+  const expectedReport =
+      readIfExists(path.join(fixturesDir, `${name}.report.txt`));
+  const expectedFix =
+      readIfExists(path.join(fixturesDir, `${name}.fixed.ts`));
+  const problems: string[] = [];
+  if (expectedReport === undefined && expectedFix === undefined) {
+    problems.push(`${file}: no ${name}.report.txt nor ${name}.fixed.ts`);
+  }
+  if (expectedReport !== undefined) {
+    const actual = reportText(file, text).join('\n');
+    if (actual !== expectedReport.trim()) {
+      problems.push(`${file}: unexpected report:\n${actual}`);
+    }
+  }
+  if (expectedFix !== undefined) {
+    const fixed = fixText(file, text).text;
+    if (fixed !== expectedFix) {
+      problems.push(`${file}: unexpected fix:\n${fixed}`);
+    } else if (reportText(file, fixed).length > 0) {
+      problems.push(`${file}: problems left after the fix`);
+    }
+  }
+  return problems;
+}
+
+function main() {
+  const names = fs.readdirSync(fixturesDir)
+      .filter(name => name.endsWith('.ts') && !name.endsWith('.fixed.ts'))
+      .map(name => name.slice(0, -'.ts'.length));
+  const problems = names.reduce(
+      (all, name) => [...all, ...checkFixture(name)], [] as string[]);
+  for (const problem of problems) {
+    console.error(problem);
+  }
+  console.log(`${names.length} fixtures, ${problems.length} problems`);
+  process.exitCode = problems.length ? 1 : 0;
+}
+
+main();
@@ -0,0 +1,10 @@
+import {interval, Observable} from 'rxjs';
+import {map, mergeMap, switchMap, takeUntil} from 'rxjs/operators';
+
+declare const stop$: Observable<void>;
+declare const f: (value: number) => Observable<number>;
+
+export const fixed = interval(1).pipe(
+    switchMap(v => interval(v).pipe(mergeMap(f), takeUntil(stop$))),
+    takeUntil(stop$),
+);
@@ -0,0 +1,15 @@
+import {interval, Observable} from 'rxjs';
+import {map, mergeMap, switchMap, takeUntil} from 'rxjs/operators';
+
+declare const stop$: Observable<void>;
+declare const f: (value: number) => Observable<number>;
+
+export const fixed = interval(1).pipe(
+    switchMap(f),
+    map(v => v),
+    takeUntil(stop$)  // stops the timer
+);
+export const closed = interval(1).pipe(
+    switchMap(f),
+    map(v => v),
+    takeUntil(stop$));
@@ -0,0 +1,15 @@
+import {interval, Observable} from 'rxjs';
+import {map, mergeMap, switchMap, takeUntil} from 'rxjs/operators';
+
+declare const stop$: Observable<void>;
+declare const f: (value: number) => Observable<number>;
+
+export const unsafe = interval(1).pipe(takeUntil(stop$), switchMap(f));
+export const custom = interval(1).pipe(
+    takeUntil(stop$),
+    (source: Observable<number>) => source.pipe(mergeMap(f)),
+);
+export const safe = interval(1).pipe(switchMap(f), takeUntil(stop$));
+export const synchronous = interval(1).pipe(takeUntil(stop$), map(v => v));
+export const ignored =
+    interval(1).pipe(takeUntil(stop$), switchMap(f));  // take-until-ok
@@ -0,0 +1,74 @@
+/**
+ * Checks that the files under test/types/fail do not compile.
+ *
+ * Each expected compile error is marked with a `// $ExpectError` comment on
+ * the line before the offending code. A fail file passes when every marked
+ * line has an error and no other line has one.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+const EXPECT_ERROR = '// $ExpectError';
+const projectDir = path.resolve(__dirname, '..', '..', '..');
+const failDir = path.join(projectDir, 'test', 'types', 'fail');
+
+function readCompilerOptions(): ts.CompilerOptions {
+  const configPath = path.join(projectDir, 'tsconfig.json');
+  const {config} = ts.readConfigFile(configPath, ts.sys.readFile);
+  return ts.parseJsonConfigFileContent(config, ts.sys, projectDir).options;
+}
+
+/** Returns the 1-based lines right after each $ExpectError marker. */
+function expectedErrorLines(source: string): Set<number> {
+  const lines = new Set<number>();
+  source.split('\n').forEach((line, index) => {
+    if (line.trim() === EXPECT_ERROR) {
+      lines.add(index + 2);
+    }
+  });
+  return lines;
+}
+
+function checkFile(file: string, options: ts.CompilerOptions): string[] {
+  const program = ts.createProgram([file], {...options, noEmit: true});
+  const sourceFile = program.getSourceFile(file);
+  if (!sourceFile) {
+    return [`${file}: cannot be read`];
+  }
+  const expected = expectedErrorLines(sourceFile.text);
+  const actual = new Set<number>();
+  const problems: string[] = [];
+  for (const diagnostic of ts.getPreEmitDiagnostics(program, sourceFile)) {
+    const line = sourceFile
+        .getLineAndCharacterOfPosition(diagnostic.start || 0).line + 1;
+    actual.add(line);
+    if (!expected.has(line)) {
+      const message =
+          ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+      problems.push(`${file}:${line}: unexpected error: ${message}`);
+    }
+  }
+  for (const line of expected) {
+    if (!actual.has(line)) {
+      problems.push(`${file}:${line}: expected error, but it compiles`);
+    }
+  }
+  return problems;
+}
+
+function main() {
+  const options = readCompilerOptions();
+  const files = fs.readdirSync(failDir)
+      .filter(name => name.endsWith('.ts'))
+      .map(name => path.join(failDir, name));
+  const problems = files.reduce(
+      (all, file) => [...all, ...checkFile(file, options)], [] as string[]);
+  for (const problem of problems) {
+    console.error(problem);
+  }
+  console.log(`${files.length} files, ${problems.length} problems`);
+  process.exitCode = problems.length ? 1 : 0;
+}
+
+main();
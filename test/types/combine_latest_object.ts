@@ -0,0 +1,21 @@
+import {Observable, of} from 'rxjs';
+import {
+  combineLatestObject,
+  forkJoinObject,
+  PartialValues,
+} from '../../src/operators/combine_latest_object';
+
+const sources = {user: of({name: 'a'}), retries: of(3)};
+
+export const latest: Observable<{user: {name: string}, retries: number}> =
+    combineLatestObject(sources);
+export const gate: Observable<{user: {name: string}, retries: number}> =
+    combineLatestObject(sources, {mode: 'gate'});
+export const partial:
+    Observable<PartialValues<{user: {name: string}, retries: number}>> =
+        combineLatestObject(sources, {mode: 'partial'});
+export const all: Observable<{user: {name: string}, retries: number}> =
+    forkJoinObject(sources);
+export const partialAll:
+    Observable<PartialValues<{user: {name: string}, retries: number}>> =
+        forkJoinObject(sources, {mode: 'partial'});
@@ -0,0 +1,24 @@
+import {Observable, of} from 'rxjs';
+import {map} from 'rxjs/operators';
+import {
+  combineLatestObject,
+  forkJoinObject,
+} from '../../../src/operators/combine_latest_object';
+
+const sources = {user: of({name: 'a'}), retries: of(3)};
+
+// Each key has the type of its own observable.
+// $ExpectError
+combineLatestObject(sources).pipe(map(({retries}) => retries.toUpperCase()));
+
+// Only the keys of the sources are emitted.
+// $ExpectError
+forkJoinObject(sources).pipe(map(({config}) => config));
+
+// Values are partial with mode=partial.
+// $ExpectError
+const complete: Observable<{retries: number}> = combineLatestObject(sources, {mode: 'partial'}).pipe(map(({values}) => values));
+
+// Sources must be observables.
+// $ExpectError
+combineLatestObject({user: {name: 'a'}});
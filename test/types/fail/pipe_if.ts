@@ -0,0 +1,32 @@
+import {Observable, of} from 'rxjs';
+import {map} from 'rxjs/operators';
+import {pipeIf} from '../../../src/operators/pipe_if';
+import {pipeSwitch} from '../../../src/operators/pipe_switch';
+
+const source = of('a', 'b');
+const toUpper = map((v: string) => v.toUpperCase());
+const toLength = map((v: string) => v.length);
+
+// Pipes must accept the source values.
+// $ExpectError
+source.pipe(pipeIf(() => true, map((v: number) => v + 1)));
+
+// Output is the union of both pipes, not either one.
+// $ExpectError
+const upperOrLength: Observable<string> = source.pipe(pipeIf(() => true, toUpper, toLength));
+
+// Without falsePipe, output includes the unchanged source values.
+// $ExpectError
+const lengthOrSource: Observable<number> = source.pipe(pipeIf(() => true, toLength));
+
+// Reactive condition must be a stream of booleans.
+// $ExpectError
+source.pipe(pipeIf(of('yes'), toUpper, toLength));
+
+// Options are only for reactive conditions.
+// $ExpectError
+source.pipe(pipeIf(() => true, toUpper, toLength, {inFlight: 'drain'}));
+
+// Without defaultPipe, every key must have a pipe.
+// $ExpectError
+source.pipe(pipeSwitch((): 'dev'|'prod' => 'dev', {dev: toUpper}));
@@ -0,0 +1,12 @@
+import {Observable, of} from 'rxjs';
+import {
+  forkJoinSettled,
+  SettledResult,
+} from '../../src/operators/fork_join_settled';
+
+export const tuple:
+    Observable<[SettledResult<string>, SettledResult<number>]> =
+        forkJoinSettled([of('a'), of(1)]);
+export const record:
+    Observable<{name: SettledResult<string>, count: SettledResult<number>}> =
+        forkJoinSettled({name: of('a'), count: of(1)});
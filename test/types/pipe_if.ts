@@ -0,0 +1,23 @@
+import {Observable, of} from 'rxjs';
+import {map} from 'rxjs/operators';
+import {pipeIf} from '../../src/operators/pipe_if';
+import {pipeSwitch} from '../../src/operators/pipe_switch';
+
+const source = of('a', 'b');
+const toUpper = map((v: string) => v.toUpperCase());
+const toLength = map((v: string) => v.length);
+
+export const sameType: Observable<string> =
+    source.pipe(pipeIf(() => true, toUpper, toUpper));
+export const union: Observable<string|number> =
+    source.pipe(pipeIf(() => true, toUpper, toLength));
+export const identityElse: Observable<string|number> =
+    source.pipe(pipeIf(() => true, toLength));
+export const reactive: Observable<string|number> =
+    source.pipe(pipeIf(of(true), toUpper, toLength, {inFlight: 'drain'}));
+export const reactiveIdentityElse: Observable<string|number> =
+    source.pipe(pipeIf(of(true), toLength));
+export const exhaustive: Observable<string> = source.pipe(
+    pipeSwitch((): 'dev'|'prod' => 'dev', {dev: toUpper, prod: toUpper}));
+export const withDefault: Observable<string> = source.pipe(
+    pipeSwitch((): 'dev'|'prod' => 'dev', {dev: toUpper}, toUpper));
@@ -0,0 +1,13 @@
+import {Observable, of} from 'rxjs';
+import {
+  ZipEvent,
+  zipLongest,
+  zipWithLeftovers,
+} from '../../src/operators/zip_longest';
+
+export const longest: Observable<[string|undefined, number|undefined]> =
+    zipLongest([of('a'), of(1)]);
+export const filled: Observable<[string|null, number|null]> =
+    zipLongest([of('a'), of(1)], {fill: null});
+export const leftovers: Observable<ZipEvent<[string, number]>> =
+    zipWithLeftovers([of('a'), of(1)]);